@@ -1,13 +1,17 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { type Address } from 'viem'
-import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { useState, useEffect, useCallback } from 'react'
+import { type Address, formatEther } from 'viem'
+import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
 import { suckerService } from '@/services/suckerService'
-import { bridgeDetectionService } from '@/services/bridgeDetectionService'
-import { getChainName } from '@/utils/chainUtils'
+import { bridgeFeeService, type BridgeFeeQuote } from '@/services/bridgeFeeService'
+import { getChainName, SUPPORTED_CHAINS } from '@/utils/chainUtils'
 import { Send } from './Icons'
 
+const formatAmount = (wei: bigint) => {
+  return parseFloat(formatEther(wei)).toLocaleString(undefined, { maximumSignificantDigits: 4 })
+}
+
 interface BridgeToRemoteButtonProps {
   suckerAddress: Address
   tokenAddress: Address
@@ -24,25 +28,32 @@ export function BridgeToRemoteButton({
   // transactionCount kept for interface compatibility but not used in compact version
 }: BridgeToRemoteButtonProps) {
   const [isProcessing, setIsProcessing] = useState(false)
-  const [requiresPayment, setRequiresPayment] = useState(false)
+  const [quote, setQuote] = useState<BridgeFeeQuote | null>(null)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
   
+  const { address } = useAccount()
   const { writeContract, data: hash, error, isPending } = useWriteContract()
   
-  // Detect bridge implementation on component mount
-  useEffect(() => {
-    const detectBridge = async () => {
-      try {
-        const paymentRequired = await bridgeDetectionService.requiresPaymentForToRemote(sourceChainId, suckerAddress, targetChainId)
-        setRequiresPayment(paymentRequired)
-      } catch (error) {
-        console.warn('Failed to detect bridge requirements:', error)
-        // Use conservative defaults
-        setRequiresPayment(true)
-      }
+  const refreshQuote = useCallback(async () => {
+    try {
+      const newQuote = await bridgeFeeService.quoteToRemote(sourceChainId, suckerAddress, tokenAddress, targetChainId, address)
+      setQuote(newQuote)
+      setQuoteError(null)
+      return newQuote
+    } catch (error) {
+      console.warn('Failed to quote bridge fee:', error)
+      setQuoteError('Could not quote the bridge fee')
+      return null
     }
+  }, [sourceChainId, suckerAddress, tokenAddress, targetChainId, address])
+  
+  // Quote the bridge fee on mount and keep it fresh while the button is shown
+  useEffect(() => {
+    refreshQuote()
+    const interval = setInterval(refreshQuote, 60000)
     
-    detectBridge()
-  }, [sourceChainId, suckerAddress, targetChainId])
+    return () => clearInterval(interval)
+  }, [refreshQuote])
   
   const { isLoading: isConfirming } = useWaitForTransactionReceipt({
     hash
@@ -60,7 +71,14 @@ export function BridgeToRemoteButton({
     try {
       setIsProcessing(true)
       
-      const contractData = suckerService.getToRemoteFunctionData(tokenAddress, requiresPayment)
+      // Re-quote right before sending so the value matches current prices
+      const currentQuote = await refreshQuote()
+      if (!currentQuote) {
+        setIsProcessing(false)
+        return
+      }
+      
+      const contractData = suckerService.getToRemoteFunctionData(tokenAddress, currentQuote.value)
       
       writeContract({
         address: suckerAddress,
@@ -75,6 +93,19 @@ export function BridgeToRemoteButton({
     }
   }
 
+  const formatCost = () => {
+    if (quoteError) return quoteError
+    if (!quote) return 'Quoting...'
+    
+    const symbol = SUPPORTED_CHAINS[sourceChainId]?.nativeCurrency.symbol ?? 'ETH'
+    const gas = quote.estimatedGasCost !== null ? ` + ~${formatAmount(quote.estimatedGasCost)} ${symbol} gas` : ' + gas'
+    
+    if (quote.fee === BigInt(0)) {
+      return quote.estimatedGasCost !== null ? `~${formatAmount(quote.estimatedGasCost)} ${symbol} gas` : 'Gas only'
+    }
+    return `${formatAmount(quote.fee)} ${symbol} fee${gas}`
+  }
+
   const isLoading = isPending || isConfirming || isProcessing
 
   return (
@@ -87,7 +118,7 @@ export function BridgeToRemoteButton({
           </span>
         </div>
         <div className="text-xs text-blue-700 dark:text-blue-300">
-          {requiresPayment ? '~0.01 ETH + gas' : 'Gas only' /** TODO: Change the hardcoded gas value to be the actual cost **/ }
+          {formatCost()}
         </div>
       </div>
       
@@ -98,7 +129,7 @@ export function BridgeToRemoteButton({
       
       <button
         onClick={handleBridgeToRemote}
-        disabled={isLoading}
+        disabled={isLoading || !quote}
         className="w-full py-2 px-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 text-sm"
       >
         {isLoading ? (
@@ -114,6 +145,12 @@ export function BridgeToRemoteButton({
         )}
       </button>
       
+      {quote && quote.fee > BigInt(0) && (
+        <p className="mt-2 text-xs text-blue-700 dark:text-blue-300">
+          Sends {formatAmount(quote.value)} including a {quote.bufferBps / 100}% buffer for price changes.
+        </p>
+      )}
+      
       {error && (
         <div className="mt-2 text-xs text-red-600 dark:text-red-400">
           Error: {error.message}
@@ -1,13 +1,19 @@
 'use client'
 
 import { useState } from 'react'
-import { type StoredBridgeTransaction } from '@/services/bridgeStorageService'
-import { getChainName } from '@/utils/chainUtils'
+import { type StoredBridgeTransaction, bridgeStorageService } from '@/services/bridgeStorageService'
+import { getChainName, getExplorerTxUrl } from '@/utils/chainUtils'
 import { bridgeStateService } from '@/services/bridgeStateService'
+import { bridgeDetectionService } from '@/services/bridgeDetectionService'
+import { bridgeDirectionRequiresFinalization, getEstimatedCompletionTime, formatEstimatedTime } from '@/utils/bridgeUtils'
+import { isFailureStatus } from '@/utils/transactionStateMachine'
 import { useBridgeTransactionState } from '@/hooks/useBridgeStateMonitor'
-import { ArrowRight, CheckCircle, Clock, Send, ChevronDown, ChevronUp } from './Icons'
+import { AlertCircle, ArrowRight, CheckCircle, Clock, Send, ChevronDown, ChevronUp } from './Icons'
 import { ClaimButton } from './ClaimButton'
 import { BridgeToRemoteButton } from './BridgeToRemoteButton'
+import { ExecuteOnL1Button } from './ExecuteOnL1Button'
+import { OpWithdrawalActions } from './OpWithdrawalActions'
+import { CcipMessageTracker } from './CcipMessageTracker'
 import { ChainLogo } from './ChainLogo'
 
 interface BridgeTransactionCardProps {
@@ -23,16 +29,31 @@ export function BridgeTransactionCard({ transaction }: BridgeTransactionCardProp
   
   // Use monitored state if available, otherwise use stored state
   const currentStatus = stateInfo?.currentStatus || status
-  const isClaimable = currentStatus === 'ready_to_claim'
+  const isClaimable = currentStatus === 'ready_to_claim' || currentStatus === 'claim_failed'
   const canSpeedUp = currentStatus === 'waiting_to_send'
+  const canExecute = currentStatus === 'ready_to_execute'
+  // Nothing was bridged, so there's nothing left to track
+  const canDismiss = currentStatus === 'prepare_reverted' || currentStatus === 'prepare_dropped'
+  
+  // Direction-specific behaviour (e.g. the challenge period on canonical L2 -> L1 withdrawals)
+  const { bridgeType, direction, directionConfig } = bridgeDetectionService.getDirectionConfigForTransaction(transaction)
+  const isFinalizing = currentStatus === 'sent_to_remote' && bridgeDirectionRequiresFinalization(bridgeType, direction)
+  const estimatedCompletion = getEstimatedCompletionTime(directionConfig, transaction.toRemoteTimestamp ?? transaction.sentToRemoteAt ?? timestamp)
+  // OP Stack withdrawals need a prove and a finalize transaction on L1
+  const opWithdrawal = isFinalizing && bridgeType === 'OptimismCanonical' ? transaction.opWithdrawal : undefined
+  const ccipMessage = currentStatus === 'sent_to_remote' && bridgeType === 'CCIP' ? transaction.ccipMessage : undefined
   
   // Helper functions for status display
   const getStatusIcon = () => {
+    if (isFailureStatus(currentStatus)) {
+      return <AlertCircle className="w-4 h-4" />
+    }
     switch (currentStatus) {
       case 'initiated':
       case 'waiting_to_send':
         return <Clock className="w-4 h-4" />
       case 'sent_to_remote':
+      case 'ready_to_execute':
         return <Send className="w-4 h-4" />
       case 'ready_to_claim':
       case 'claimed':
@@ -43,12 +64,17 @@ export function BridgeTransactionCard({ transaction }: BridgeTransactionCardProp
   }
 
   const getStatusColor = () => {
+    if (isFailureStatus(currentStatus)) {
+      return 'text-red-600 bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800'
+    }
     switch (currentStatus) {
       case 'initiated':
       case 'waiting_to_send':
         return 'text-orange-600 bg-orange-50 border-orange-200 dark:bg-orange-900/20 dark:border-orange-800'
       case 'sent_to_remote':
         return 'text-blue-600 bg-blue-50 border-blue-200 dark:bg-blue-900/20 dark:border-blue-800'
+      case 'ready_to_execute':
+        return 'text-purple-600 bg-purple-50 border-purple-200 dark:bg-purple-900/20 dark:border-purple-800'
       case 'ready_to_claim':
         return 'text-green-600 bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800'
       case 'claimed':
@@ -61,15 +87,27 @@ export function BridgeTransactionCard({ transaction }: BridgeTransactionCardProp
   const getStatusText = () => {
     switch (currentStatus) {
       case 'initiated':
-        return 'Initiated'
+        return transaction.index ? 'Initiated' : 'Confirming'
       case 'waiting_to_send':
         return 'Ready to bridge'
       case 'sent_to_remote':
-        return 'Bridging...'
+        return isFinalizing ? 'Finalizing' : 'Bridging...'
+      case 'ready_to_execute':
+        return 'Ready to execute'
       case 'ready_to_claim':
         return 'Ready to claim'
       case 'claimed':
         return 'Completed'
+      case 'prepare_reverted':
+        return 'Reverted'
+      case 'prepare_dropped':
+        return 'Dropped'
+      case 'claim_failed':
+        return 'Claim failed'
+      case 'stuck':
+        return 'Stuck'
+      case 'emergency_exit':
+        return 'Emergency exit'
       default:
         return 'Processing'
     }
@@ -78,14 +116,46 @@ export function BridgeTransactionCard({ transaction }: BridgeTransactionCardProp
   const getStatusDescription = () => {
     switch (currentStatus) {
       case 'initiated':
+        return transaction.index
+          ? 'Waiting to be sent to destination chain'
+          : `Waiting for the prepare transaction to confirm on ${getChainName(sourceChainId)}`
       case 'waiting_to_send':
         return 'Waiting to be sent to destination chain'
       case 'sent_to_remote':
-        return 'Being processed on destination chain'
+        if (opWithdrawal?.status === 'finalized') {
+          return `Withdrawal finalized, waiting for it to reach ${getChainName(targetChainId)}`
+        }
+        if (opWithdrawal) {
+          return `Withdrawal must be proven and then finalized on ${getChainName(targetChainId)} before it can be claimed`
+        }
+        if (isFinalizing) {
+          return estimatedCompletion > Date.now()
+            ? `In the challenge period, claimable on ${getChainName(targetChainId)} around ${formatDate(estimatedCompletion)}`
+            : `Challenge period should be over, waiting for the withdrawal to reach ${getChainName(targetChainId)}`
+        }
+        if (ccipMessage?.status === 'failed') {
+          return `CCIP execution failed on ${getChainName(targetChainId)}, it needs to be executed manually`
+        }
+        if (transaction.arrivedAt) {
+          return `Arrived on ${getChainName(targetChainId)}, preparing the claim proof`
+        }
+        return `Being processed on destination chain (${formatEstimatedTime(directionConfig.estimatedTimeMinutes)})`
+      case 'ready_to_execute':
+        return `Challenge period is over, execute the withdrawal on ${getChainName(targetChainId)} to make it claimable`
       case 'ready_to_claim':
         return 'Ready to claim on destination chain'
       case 'claimed':
         return 'Successfully completed'
+      case 'prepare_reverted':
+        return 'The prepare transaction reverted, nothing was bridged'
+      case 'prepare_dropped':
+        return `The prepare transaction never confirmed on ${getChainName(sourceChainId)}, nothing was bridged`
+      case 'claim_failed':
+        return 'The claim transaction reverted, it can be tried again'
+      case 'stuck':
+        return `Sent, but it hasn't reached ${getChainName(targetChainId)} long after it should have`
+      case 'emergency_exit':
+        return `The bridge for this token is shut down, the tokens can only be recovered on ${getChainName(sourceChainId)} through the emergency hatch`
       default:
         return 'Processing...'
     }
@@ -111,8 +181,8 @@ export function BridgeTransactionCard({ transaction }: BridgeTransactionCardProp
     }
   }
 
-  const formatDate = () => {
-    return new Date(timestamp).toLocaleDateString(undefined, {
+  const formatDate = (date: number = timestamp) => {
+    return new Date(date).toLocaleDateString(undefined, {
       month: 'short',
       day: 'numeric',
       hour: '2-digit',
@@ -120,6 +190,28 @@ export function BridgeTransactionCard({ transaction }: BridgeTransactionCardProp
     })
   }
 
+  // Each step that happened, with the transaction to check it on an explorer
+  const timeline = [
+    { label: `Prepared on ${getChainName(sourceChainId)}`, time: timestamp, chainId: sourceChainId, hash: transaction.transactionHash, note: undefined },
+    transaction.toRemoteTransactionHash && {
+      label: `Sent to ${getChainName(targetChainId)}`,
+      time: transaction.toRemoteTimestamp ?? transaction.sentToRemoteAt,
+      chainId: sourceChainId,
+      hash: transaction.toRemoteTransactionHash,
+      note: [
+        transaction.sentNonce && `nonce ${transaction.sentNonce}`,
+        transaction.toRemoteCaller && `by ${transaction.toRemoteCaller.slice(0, 6)}...${transaction.toRemoteCaller.slice(-4)}`
+      ].filter(Boolean).join(', ') || undefined
+    },
+    transaction.arrivedAt && {
+      label: `Arrived on ${getChainName(targetChainId)}`,
+      time: transaction.arrivedAt,
+      chainId: targetChainId,
+      hash: transaction.arrivalTransactionHash,
+      note: undefined
+    }
+  ].filter(step => !!step)
+
   const getTimeAgo = () => {
     const now = Date.now()
     const diff = now - timestamp
@@ -190,10 +282,35 @@ export function BridgeTransactionCard({ transaction }: BridgeTransactionCardProp
           />
         )}
         
+        {/* Arbitrum Outbox Execution */}
+        {canExecute && (
+          <ExecuteOnL1Button transaction={transaction} />
+        )}
+        
+        {/* OP Stack Prove / Finalize */}
+        {opWithdrawal && (
+          <OpWithdrawalActions transaction={transaction} />
+        )}
+        
+        {/* CCIP Message Progress */}
+        {ccipMessage && (
+          <CcipMessageTracker transaction={transaction} />
+        )}
+        
         {/* Claim Button */}
         {isClaimable && (
           <ClaimButton transaction={transaction} />
         )}
+        
+        {/* Dismiss a bridge that never happened */}
+        {canDismiss && (
+          <button
+            onClick={() => bridgeStorageService.removeTransaction(transaction.id)}
+            className="w-full py-2 px-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+          >
+            Dismiss
+          </button>
+        )}
       </div>
 
       {/* Details Toggle */}
@@ -230,8 +347,28 @@ export function BridgeTransactionCard({ transaction }: BridgeTransactionCardProp
             </div>
             
             <div>
-              <div className="font-medium text-gray-700 dark:text-gray-300">Transaction Hash</div>
-              <div className="font-mono break-all">{transaction.transactionHash}</div>
+              <div className="font-medium text-gray-700 dark:text-gray-300">Timeline</div>
+              <ol className="mt-1 space-y-2 border-l border-gray-200 dark:border-gray-600 pl-3">
+                {timeline.map(step => {
+                  const url = step.hash ? getExplorerTxUrl(step.chainId, step.hash) : null
+                  return (
+                    <li key={step.label}>
+                      <div className="text-gray-700 dark:text-gray-300">
+                        {step.label}
+                        {step.time && <span className="text-gray-500 dark:text-gray-400"> · {formatDate(step.time)}</span>}
+                      </div>
+                      {step.note && <div>{step.note}</div>}
+                      {step.hash && (url ? (
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="font-mono break-all text-blue-600 hover:text-blue-700 dark:text-blue-400">
+                          {step.hash}
+                        </a>
+                      ) : (
+                        <div className="font-mono break-all">{step.hash}</div>
+                      ))}
+                    </li>
+                  )
+                })}
+              </ol>
             </div>
             
             {transaction.bridgeInfo && (
@@ -1,16 +1,27 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { useAccount } from 'wagmi'
 import { BridgeTransactionCard } from './BridgeTransactionCard'
+import { RecoverHistoryPanel } from './RecoverHistoryPanel'
+import { ClaimAllButton } from './ClaimAllButton'
+import { WatchlistPanel } from './WatchlistPanel'
 import { bridgeStorageService, type StoredBridgeTransaction } from '@/services/bridgeStorageService'
+import { watchlistService, type WatchedAddress } from '@/services/watchlistService'
 import { useBridgeStateMonitor } from '@/hooks/useBridgeStateMonitor'
 
 export function BridgeTransactionList() {
   const [transactions, setTransactions] = useState<StoredBridgeTransaction[]>([])
   const [loading, setLoading] = useState(true)
+  const [showRecovery, setShowRecovery] = useState(false)
+  const [showWatchlist, setShowWatchlist] = useState(false)
+  const [watchedAddresses, setWatchedAddresses] = useState<WatchedAddress[]>([])
+  // 'all', or a beneficiary address to show only its transactions
+  const [beneficiaryFilter, setBeneficiaryFilter] = useState('all')
+  const { address, isConnected } = useAccount()
   
   // Monitor bridge states with auto-refresh every 30 seconds
-  const { stateInfos, isChecking, lastCheckTime } = useBridgeStateMonitor({
+  const { stateInfos, isChecking, lastCheckTime, checkNow } = useBridgeStateMonitor({
     intervalMs: 30000,
     enabled: true
   })
@@ -36,10 +47,10 @@ export function BridgeTransactionList() {
   }
   
   useEffect(() => {
-    // Load initially
-    loadTransactions()
+    // Load once the store has been read from IndexedDB
+    bridgeStorageService.ready().then(loadTransactions)
     
-    // Listen for localStorage changes (when new transactions are added from other tabs)
+    // Listen for localStorage changes (localStorage fallback, when transactions are added from other tabs)
     const handleStorageChange = (e: StorageEvent) => {
       if (e.key === 'juicerkle-bridge-transactions') {
         loadTransactions()
@@ -51,12 +62,19 @@ export function BridgeTransactionList() {
       loadTransactions()
     }
     
+    const loadWatchlist = () => {
+      setWatchedAddresses(watchlistService.getWatchlist().addresses)
+    }
+    loadWatchlist()
+    
     window.addEventListener('storage', handleStorageChange)
     window.addEventListener('bridge-transactions-updated', handleCustomStorageChange)
+    window.addEventListener('watchlist-updated', loadWatchlist)
     
     return () => {
       window.removeEventListener('storage', handleStorageChange)
       window.removeEventListener('bridge-transactions-updated', handleCustomStorageChange)
+      window.removeEventListener('watchlist-updated', loadWatchlist)
     }
   }, [])
   
@@ -67,6 +85,48 @@ export function BridgeTransactionList() {
     }
   }, [stateInfos, lastCheckTime])
   
+  // Recovered transactions start out waiting to send, so check their real state right away
+  const handleRecovered = (count: number) => {
+    loadTransactions()
+    if (count > 0) {
+      checkNow()
+    }
+  }
+  
+  const visibleTransactions = beneficiaryFilter === 'all'
+    ? transactions
+    : transactions.filter(tx => tx.beneficiary.toLowerCase() === beneficiaryFilter)
+  
+  // Claims the connected wallet can make in one go: its own, and ones it bridged to another beneficiary
+  const claimable = transactions.filter(tx =>
+    (tx.status === 'ready_to_claim' || tx.status === 'claim_failed') && tx.claimProof && tx.claimLeaf &&
+    (tx.beneficiary.toLowerCase() === address?.toLowerCase() || tx.caller.toLowerCase() === address?.toLowerCase())
+  )
+  
+  const recoveryPanel = isConnected && (
+    showRecovery ? (
+      <RecoverHistoryPanel onRecovered={handleRecovered} onClose={() => setShowRecovery(false)} />
+    ) : (
+      <button
+        onClick={() => setShowRecovery(true)}
+        className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+      >
+        Missing transactions? Recover history
+      </button>
+    )
+  )
+  
+  const watchlistPanel = showWatchlist ? (
+    <WatchlistPanel onSynced={handleRecovered} onClose={() => setShowWatchlist(false)} />
+  ) : (
+    <button
+      onClick={() => setShowWatchlist(true)}
+      className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+    >
+      Watch list ({watchedAddresses.length} address{watchedAddresses.length !== 1 ? 'es' : ''})
+    </button>
+  )
+  
   if (loading) {
     return (
       <div className="text-center py-8">
@@ -82,6 +142,8 @@ export function BridgeTransactionList() {
       <div className="text-center py-8 text-gray-500 dark:text-gray-400">
         <p>No bridge transactions found.</p>
         <p className="text-sm mt-2">Your bridge transactions will appear here once you start bridging tokens.</p>
+        {recoveryPanel && <div className="mt-4 text-left">{recoveryPanel}</div>}
+        <div className="mt-4 text-left">{watchlistPanel}</div>
       </div>
     )
   }
@@ -90,7 +152,24 @@ export function BridgeTransactionList() {
     <div className="space-y-4">
       {/* Status Monitor Info */}
       <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
-        <span>{transactions.length} transaction{transactions.length !== 1 ? 's' : ''}</span>
+        <div className="flex items-center gap-2">
+          <span>{visibleTransactions.length} transaction{visibleTransactions.length !== 1 ? 's' : ''}</span>
+          {watchedAddresses.length > 0 && (
+            <select
+              className="p-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+              value={beneficiaryFilter}
+              onChange={(e) => setBeneficiaryFilter(e.target.value)}
+            >
+              <option value="all">All beneficiaries</option>
+              {address && <option value={address.toLowerCase()}>Connected wallet</option>}
+              {watchedAddresses.map(watched => (
+                <option key={watched.address} value={watched.address.toLowerCase()}>
+                  {watched.label ?? `${watched.address.slice(0, 6)}...${watched.address.slice(-4)}`}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
         <div className="flex items-center gap-2">
           {isChecking && (
             <div className="flex items-center gap-1">
@@ -104,9 +183,14 @@ export function BridgeTransactionList() {
         </div>
       </div>
       
+      {recoveryPanel}
+      {watchlistPanel}
+      
+      <ClaimAllButton transactions={claimable} onComplete={loadTransactions} />
+      
       {/* Transaction Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {transactions.map(transaction => (
+        {visibleTransactions.map(transaction => (
           <BridgeTransactionCard 
             key={transaction.id} 
             transaction={transaction}
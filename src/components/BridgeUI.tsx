@@ -5,13 +5,15 @@ import { useAccount } from 'wagmi'
 import { BridgeTransactionList } from './BridgeTransactionList'
 import { NewBridgeForm } from './NewBridgeForm'
 import { ConnectButton } from './ConnectButton'
-import { PlusIcon } from './Icons'
+import { RpcSettingsPanel } from './RpcSettingsPanel'
+import { PlusIcon, Settings } from './Icons'
 import { bridgeStateService } from '@/services/bridgeStateService'
 import { bridgeStorageService } from '@/services/bridgeStorageService'
 
 export function BridgeUI() {
     const { isConnected } = useAccount()
     const [showNewBridgeForm, setShowNewBridgeForm] = useState(false)
+    const [showRpcSettings, setShowRpcSettings] = useState(false)
 
     // Add debug functions to global window for testing
     useEffect(() => {
@@ -66,7 +68,14 @@ export function BridgeUI() {
                     </p>
                 </div>
 
-                <div className="mt-4 md:mt-0">
+                <div className="mt-4 md:mt-0 flex items-center gap-2">
+                    <button
+                        onClick={() => setShowRpcSettings(!showRpcSettings)}
+                        className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+                        title="RPC Settings"
+                    >
+                        <Settings className="w-5 h-5" />
+                    </button>
                     {!isConnected ? (
                         <ConnectButton />
                     ) : (
@@ -82,6 +91,12 @@ export function BridgeUI() {
                 </div>
             </div>
 
+            {showRpcSettings && (
+                <div className="mb-8">
+                    <RpcSettingsPanel onClose={() => setShowRpcSettings(false)} />
+                </div>
+            )}
+
             {showNewBridgeForm && (
                 <div className="mb-8">
                     <NewBridgeForm
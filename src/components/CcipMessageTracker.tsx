@@ -0,0 +1,146 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAccount, useWriteContract, useWaitForTransactionReceipt, useSwitchChain } from 'wagmi'
+import { type StoredBridgeTransaction, bridgeStorageService } from '@/services/bridgeStorageService'
+import { ccipMessageService } from '@/services/ccipMessageService'
+import { type CcipMessageStatus } from '@/types/bridge'
+import { getChainName } from '@/utils/chainUtils'
+import { Send } from './Icons'
+
+interface CcipMessageTrackerProps {
+  transaction: StoredBridgeTransaction
+}
+
+const STATUS_LABELS: Record<CcipMessageStatus, string> = {
+  sent: 'Waiting for commit',
+  committed: 'Committed',
+  executed: 'Executed',
+  failed: 'Failed, manual execution needed'
+}
+
+export function CcipMessageTracker({ transaction }: CcipMessageTrackerProps) {
+  const { chainId } = useAccount()
+  const { writeContract, data: hash, error, isPending } = useWriteContract()
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  })
+
+  const [preparing, setPreparing] = useState(false)
+  const [prepareError, setPrepareError] = useState<string | null>(null)
+
+  const message = transaction.ccipMessage
+  const isOnCorrectChain = chainId === transaction.targetChainId
+  const targetChainName = getChainName(transaction.targetChainId)
+
+  // Pick up the executed state right away instead of waiting for the next poll
+  useEffect(() => {
+    if (!isConfirmed || !message || message.status === 'executed') {
+      return
+    }
+    bridgeStorageService.updateTransactionCcipMessage(transaction.id, { ...message, status: 'executed', updatedAt: Date.now() })
+  }, [isConfirmed, message, transaction.id])
+
+  if (!message) {
+    return null
+  }
+
+  const needsManualExecution = message.status === 'failed'
+
+  const handleExecute = async () => {
+    if (!isOnCorrectChain) {
+      try {
+        await switchChain({ chainId: transaction.targetChainId })
+      } catch (error) {
+        console.error('Failed to switch chain:', error)
+      }
+      return
+    }
+
+    try {
+      setPreparing(true)
+      setPrepareError(null)
+
+      // The proof is rebuilt from the commit report covering this message
+      const contractData = await ccipMessageService.getManualExecutionData(transaction)
+
+      writeContract({
+        address: contractData.address,
+        abi: contractData.abi,
+        functionName: contractData.functionName,
+        args: contractData.args
+      })
+    } catch (error) {
+      console.error('Failed to prepare CCIP manual execution:', error)
+      setPrepareError(error instanceof Error ? error.message : 'Failed to prepare manual execution')
+    } finally {
+      setPreparing(false)
+    }
+  }
+
+  const isBusy = preparing || isPending || isConfirming || isSwitchingChain
+
+  const getButtonText = () => {
+    if (!isOnCorrectChain) {
+      return `Switch to ${targetChainName}`
+    }
+    if (preparing) {
+      return 'Building proof...'
+    }
+    if (isPending) {
+      return 'Confirm in wallet...'
+    }
+    if (isConfirming) {
+      return 'Executing...'
+    }
+    return `Execute manually on ${targetChainName}`
+  }
+
+  const colorClasses = needsManualExecution
+    ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+    : 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300'
+
+  return (
+    <div className={`border rounded-lg p-3 ${colorClasses}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Send className="w-4 h-4" />
+          <span className="font-medium text-sm">
+            CCIP: {STATUS_LABELS[message.status]}
+          </span>
+        </div>
+        <a
+          href={`https://ccip.chain.link/msg/${message.messageId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs underline"
+        >
+          View message
+        </a>
+      </div>
+
+      {needsManualExecution && (
+        <>
+          <p className="text-xs mt-2">
+            The message reached {targetChainName} but its automatic execution reverted. Anyone can execute it manually.
+          </p>
+          <button
+            onClick={handleExecute}
+            disabled={isBusy || isConfirmed}
+            className="w-full mt-3 py-2 px-3 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 text-sm"
+          >
+            {isBusy && <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />}
+            {getButtonText()}
+          </button>
+        </>
+      )}
+
+      {(error || prepareError) && (
+        <div className="mt-2 text-xs text-red-600 dark:text-red-400">
+          Error: {prepareError ?? error?.message}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useState } from 'react'
+import { type Address, type Hash } from 'viem'
+import { useAccount, useWriteContract, useSwitchChain } from 'wagmi'
+import { getAccount } from '@wagmi/core'
+import { bridgeStorageService, type StoredBridgeTransaction } from '@/services/bridgeStorageService'
+import { suckerService } from '@/services/suckerService'
+import { merkleProofService } from '@/services/merkleProofService'
+import { type JBClaim } from '@/types/bridge'
+import { getChainName } from '@/utils/chainUtils'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+import { config } from '@/utils/wagmiConfig'
+import { CheckCircle } from './Icons'
+
+interface ClaimAllButtonProps {
+  transactions: StoredBridgeTransaction[] // ready_to_claim (or claim_failed) transactions the connected wallet bridged or receives
+  onComplete?: () => void
+}
+
+type ClaimProgress = 'queued' | 'verifying' | 'claiming' | 'claimed' | 'failed'
+
+interface ClaimGroup {
+  key: string
+  targetChainId: number
+  suckerAddress: Address
+  transactions: StoredBridgeTransaction[]
+}
+
+/**
+ * Group transactions by destination chain and sucker, since one claim call covers one sucker
+ */
+function groupTransactions(transactions: StoredBridgeTransaction[]): ClaimGroup[] {
+  const groups = new Map<string, ClaimGroup>()
+  for (const tx of transactions) {
+    const key = `${tx.targetChainId}-${tx.suckerAddress.toLowerCase()}`
+    const group = groups.get(key) ?? { key, targetChainId: tx.targetChainId, suckerAddress: tx.suckerAddress, transactions: [] }
+    group.transactions.push(tx)
+    groups.set(key, group)
+  }
+  return Array.from(groups.values())
+}
+
+export function ClaimAllButton({ transactions, onComplete }: ClaimAllButtonProps) {
+  const { address } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const { switchChainAsync } = useSwitchChain()
+
+  const [running, setRunning] = useState(false)
+  // The list shrinks as claims land, so a run works from a snapshot
+  const [batch, setBatch] = useState<StoredBridgeTransaction[]>([])
+  const [progress, setProgress] = useState<Record<string, ClaimProgress>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const hasProgress = Object.keys(progress).length > 0
+  const shown = hasProgress ? batch : transactions
+  const groups = groupTransactions(shown)
+
+  const setStatus = (ids: string[], status: ClaimProgress, error?: string) => {
+    setProgress(prev => ({ ...prev, ...Object.fromEntries(ids.map(id => [id, status])) }))
+    if (error) {
+      setErrors(prev => ({ ...prev, ...Object.fromEntries(ids.map(id => [id, error])) }))
+    }
+  }
+
+  /**
+   * Match each Claim log in a confirmed claim transaction back to the transaction it settles
+   */
+  const awaitClaims = async (group: ClaimGroup, hash: Hash, claimed: StoredBridgeTransaction[]) => {
+    const pending = [...claimed]
+
+    try {
+      await suckerService.listenForClaimEvent(group.targetChainId, group.suckerAddress, hash, (event) => {
+        const index = pending.findIndex(tx =>
+          tx.claimLeaf?.Beneficiary.toLowerCase() === event.beneficiary.toLowerCase() &&
+          tx.claimLeaf.ProjectTokenCount === event.projectTokenCount &&
+          tx.claimLeaf.TerminalTokenAmount === event.terminalTokenAmount
+        )
+        if (index === -1) {
+          return
+        }
+        const [tx] = pending.splice(index, 1)
+        bridgeStorageService.transitionTransaction(tx.id, 'claimed')
+        setStatus([tx.id], 'claimed')
+      })
+    } catch (error) {
+      console.error('Failed to listen for claim events:', error)
+    }
+
+    if (pending.length === 0) {
+      return
+    }
+
+    // Logs we couldn't match still count if the transaction itself succeeded
+    const receipt = await getSharedPublicClient(group.targetChainId).getTransactionReceipt({ hash })
+    if (receipt.status === 'success') {
+      pending.forEach(tx => bridgeStorageService.transitionTransaction(tx.id, 'claimed'))
+      setStatus(pending.map(tx => tx.id), 'claimed')
+    } else {
+      pending.forEach(tx => bridgeStorageService.transitionTransaction(tx.id, 'claim_failed'))
+      setStatus(pending.map(tx => tx.id), 'failed', 'Claim transaction reverted')
+    }
+  }
+
+  const claimGroup = async (group: ClaimGroup) => {
+    // Earlier groups may have switched chains since this render
+    if (getAccount(config).chainId !== group.targetChainId) {
+      await switchChainAsync({ chainId: group.targetChainId })
+    }
+
+    // Check every proof first so one bad proof doesn't sink the whole batch
+    const verified: { tx: StoredBridgeTransaction, claim: JBClaim }[] = []
+    for (const tx of group.transactions) {
+      setStatus([tx.id], 'verifying')
+      try {
+        const { claim, verification } = await merkleProofService.getVerifiedClaim(tx)
+        if (verification.valid) {
+          verified.push({ tx, claim })
+        } else {
+          setStatus([tx.id], 'failed', verification.error || 'Proof verification failed')
+        }
+      } catch (error) {
+        setStatus([tx.id], 'failed', error instanceof Error ? error.message : 'Proof verification failed')
+      }
+    }
+
+    if (verified.length === 0) {
+      return
+    }
+
+    const claims = verified.map(({ claim }) => claim)
+    if (verified.length > 1 && address && await suckerService.canBatchClaim(group.targetChainId, group.suckerAddress, claims, address)) {
+      const ids = verified.map(({ tx }) => tx.id)
+      setStatus(ids, 'claiming')
+      try {
+        const contractData = suckerService.getBatchClaimFunctionData(claims)
+        const hash = await writeContractAsync({
+          chainId: group.targetChainId,
+          address: group.suckerAddress,
+          abi: contractData.abi,
+          functionName: contractData.functionName,
+          args: contractData.args
+        })
+        await awaitClaims(group, hash, verified.map(({ tx }) => tx))
+      } catch (error) {
+        setStatus(ids, 'failed', error instanceof Error ? error.message : 'Batch claim failed')
+      }
+      return
+    }
+
+    // No batch overload: one transaction per claim
+    for (const { tx, claim } of verified) {
+      setStatus([tx.id], 'claiming')
+      try {
+        const contractData = suckerService.getClaimFunctionData(claim)
+        const hash = await writeContractAsync({
+          chainId: group.targetChainId,
+          address: group.suckerAddress,
+          abi: contractData.abi,
+          functionName: contractData.functionName,
+          args: contractData.args
+        })
+        await awaitClaims(group, hash, [tx])
+      } catch (error) {
+        setStatus([tx.id], 'failed', error instanceof Error ? error.message : 'Claim failed')
+      }
+    }
+  }
+
+  const handleClaimAll = async () => {
+    setRunning(true)
+    setBatch(transactions)
+    setProgress(Object.fromEntries(transactions.map(tx => [tx.id, 'queued' as ClaimProgress])))
+    setErrors({})
+
+    for (const group of groupTransactions(transactions)) {
+      try {
+        await claimGroup(group)
+      } catch (error) {
+        // Usually a rejected chain switch; leave the group for another run
+        console.error(`Failed to claim on ${getChainName(group.targetChainId)}:`, error)
+        setStatus(group.transactions.map(tx => tx.id), 'failed', error instanceof Error ? error.message : 'Claim failed')
+      }
+    }
+
+    setRunning(false)
+    onComplete?.()
+  }
+
+  const getProgressText = (status: ClaimProgress | undefined) => {
+    switch (status) {
+      case 'verifying':
+        return 'Verifying proof...'
+      case 'claiming':
+        return 'Claiming...'
+      case 'claimed':
+        return 'Claimed'
+      case 'failed':
+        return 'Failed'
+      case 'queued':
+        return 'Queued'
+      default:
+        return 'Ready'
+    }
+  }
+
+  const handleDismiss = () => {
+    setProgress({})
+    setErrors({})
+    setBatch([])
+  }
+
+  if (!hasProgress && transactions.length < 2) {
+    return null
+  }
+
+  const claimedCount = shown.filter(tx => progress[tx.id] === 'claimed').length
+
+  return (
+    <div className="border rounded-lg p-4 bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-600" />
+          <span className="font-medium text-green-900 dark:text-green-100 text-sm">
+            {shown.length} transactions ready to claim
+            {groups.length > 1 && ` across ${groups.length} suckers`}
+          </span>
+        </div>
+        {hasProgress && !running ? (
+          <button
+            onClick={handleDismiss}
+            className="text-sm text-green-700 hover:text-green-800 dark:text-green-300"
+          >
+            Done ({claimedCount}/{shown.length} claimed)
+          </button>
+        ) : (
+          <button
+            onClick={handleClaimAll}
+            disabled={running}
+            className="py-2 px-4 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 text-sm"
+          >
+            {running && <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />}
+            {running ? `Claiming (${claimedCount}/${shown.length})...` : 'Claim all'}
+          </button>
+        )}
+      </div>
+
+      {hasProgress && (
+        <ul className="mt-3 space-y-1">
+          {groups.map(group => group.transactions.map(tx => (
+            <li key={tx.id} className="text-xs text-green-800 dark:text-green-200">
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  {parseFloat(tx.projectTokenCount).toLocaleString(undefined, { maximumFractionDigits: 4 })} tokens on {getChainName(group.targetChainId)}
+                </span>
+                <span className={progress[tx.id] === 'failed' ? 'text-red-600 dark:text-red-400' : ''}>
+                  {getProgressText(progress[tx.id])}
+                </span>
+              </div>
+              {errors[tx.id] && (
+                <div className="text-red-600 dark:text-red-400 break-words">{errors[tx.id]}</div>
+              )}
+            </li>
+          )))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { useAccount, useWriteContract, useWaitForTransactionReceipt, useSwitchCh
 import { type StoredBridgeTransaction } from '@/services/bridgeStorageService'
 import { suckerService } from '@/services/suckerService'
 import { bridgeStorageService } from '@/services/bridgeStorageService'
+import { merkleProofService } from '@/services/merkleProofService'
 import { getChainName } from '@/utils/chainUtils'
 
 interface ClaimButtonProps {
@@ -16,19 +17,23 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
   const { address, chainId } = useAccount()
   const { writeContract, data: hash, error, isPending } = useWriteContract()
   const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+  const { data: receipt, isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
     hash,
   })
 
   const [claiming, setClaiming] = useState(false)
   const [waitingForEvent, setWaitingForEvent] = useState(false)
+  const [verifying, setVerifying] = useState(false)
+  const [verificationError, setVerificationError] = useState<string | null>(null)
 
   const isOnCorrectChain = chainId === transaction.targetChainId
   const isCorrectBeneficiary = address?.toLowerCase() === transaction.beneficiary.toLowerCase()
-  const isReadyToClaim = transaction.status === 'ready_to_claim' && transaction.claimProof && transaction.claimLeaf
+  // A failed claim can be retried with the same proof
+  const isReadyToClaim = (transaction.status === 'ready_to_claim' || transaction.status === 'claim_failed') && transaction.claimProof && transaction.claimLeaf
+  const isReverted = receipt?.status === 'reverted'
   
-  // Button is enabled if: ready to claim AND correct beneficiary AND (on correct chain OR can switch chains)
-  const canInteract = isCorrectBeneficiary && isReadyToClaim && !claiming && !isPending && !isConfirming && !waitingForEvent && !isSwitchingChain
+  // Claims are permissionless and always pay the beneficiary, so the sender can claim for a multisig or teammate
+  const canInteract = !!address && isReadyToClaim && !claiming && !isPending && !isConfirming && !waitingForEvent && !isSwitchingChain
 
   const handleButtonClick = async () => {
     // If not on correct chain, switch chains first
@@ -54,11 +59,18 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
     try {
       setClaiming(true)
 
-      // Construct the claim data from stored transaction
-      const claimData = {
-        Token: transaction.token,
-        Leaf: transaction.claimLeaf,
-        Proof: transaction.claimProof
+      setVerifying(true)
+      setVerificationError(null)
+
+      // Verify the proof against the destination inbox root so a bad proof doesn't cost gas
+      const { claim: claimData, verification } = await merkleProofService.getVerifiedClaim(transaction)
+
+      setVerifying(false)
+
+      if (!verification.valid) {
+        setVerificationError(verification.error || 'Proof verification failed')
+        setClaiming(false)
+        return
       }
 
       console.log('Claiming transaction:', transaction.id)
@@ -77,6 +89,7 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
 
     } catch (error) {
       console.error('Failed to claim:', error)
+      setVerifying(false)
       setClaiming(false)
     }
   }
@@ -84,6 +97,15 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
   // Listen for claim event when transaction is confirmed
   useEffect(() => {
     if (isConfirmed && hash && !waitingForEvent && transaction.status !== 'claimed') {
+      // A reverted claim leaves the leaf unclaimed
+      if (isReverted) {
+        if (transaction.status !== 'claim_failed') {
+          bridgeStorageService.transitionTransaction(transaction.id, 'claim_failed')
+        }
+        setClaiming(false)
+        return
+      }
+
       setWaitingForEvent(true)
       
       // Listen for the Claim event to confirm the claim was successful
@@ -94,21 +116,21 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
         (eventData) => {
           console.log('Claim event received:', eventData)
           // Update transaction status to claimed
-          bridgeStorageService.updateTransactionStatus(transaction.id, 'claimed')
+          bridgeStorageService.transitionTransaction(transaction.id, 'claimed')
           setWaitingForEvent(false)
           setClaiming(false)
           onSuccess?.()
         }
       ).catch((error) => {
         console.error('Failed to listen for claim event:', error)
-        // Even if event listening fails, we can assume the claim was successful since the transaction was confirmed
-        bridgeStorageService.updateTransactionStatus(transaction.id, 'claimed')
+        // Even if event listening fails, we can assume the claim was successful since the transaction didn't revert
+        bridgeStorageService.transitionTransaction(transaction.id, 'claimed')
         setWaitingForEvent(false)
         setClaiming(false)
         onSuccess?.()
       })
     }
-  }, [isConfirmed, hash, waitingForEvent, transaction, onSuccess])
+  }, [isConfirmed, isReverted, hash, waitingForEvent, transaction, onSuccess])
 
   // Reset claiming state if transaction fails
   if (error && claiming) {
@@ -120,12 +142,12 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
     if (!isOnCorrectChain) {
       return `Switch to ${getChainName(transaction.targetChainId)}`
     }
-    if (!isCorrectBeneficiary) {
-      return 'Not your transaction'
-    }
     if (!isReadyToClaim) {
       return 'Not ready to claim'
     }
+    if (verifying) {
+      return 'Verifying proof...'
+    }
     if (isPending) {
       return 'Confirm in wallet...'
     }
@@ -135,6 +157,9 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
     if (waitingForEvent) {
       return 'Processing claim...'
     }
+    if (isReverted || (!hash && transaction.status === 'claim_failed')) {
+      return 'Claim failed, try again'
+    }
     if (isConfirmed) {
       return 'Claimed!'
     }
@@ -145,7 +170,7 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
     if (!canInteract) {
       return 'bg-gray-400 cursor-not-allowed'
     }
-    if (isConfirmed) {
+    if (isConfirmed && !isReverted) {
       return 'bg-green-600'
     }
     return 'bg-blue-600 hover:bg-blue-700'
@@ -167,9 +192,15 @@ export function ClaimButton({ transaction, onSuccess }: ClaimButtonProps) {
         </p>
       )}
 
+      {verificationError && (
+        <p className="text-sm text-red-600">
+          {verificationError}
+        </p>
+      )}
+
       {!isCorrectBeneficiary && address && (
         <p className="text-sm text-gray-600">
-          This transaction can only be claimed by {transaction.beneficiary}
+          Tokens will be claimed to {transaction.beneficiary}
         </p>
       )}
     </div>
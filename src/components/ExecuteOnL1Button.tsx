@@ -0,0 +1,138 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAccount, useWriteContract, useWaitForTransactionReceipt, useSwitchChain } from 'wagmi'
+import { type StoredBridgeTransaction } from '@/services/bridgeStorageService'
+import { arbitrumOutboxService, type ArbitrumOutboxMessageState } from '@/services/arbitrumOutboxService'
+import { getChainName } from '@/utils/chainUtils'
+import { Send } from './Icons'
+
+interface ExecuteOnL1ButtonProps {
+  transaction: StoredBridgeTransaction
+  onSuccess?: () => void
+}
+
+export function ExecuteOnL1Button({ transaction, onSuccess }: ExecuteOnL1ButtonProps) {
+  const { chainId } = useAccount()
+  const { writeContract, data: hash, error, isPending, reset } = useWriteContract()
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  })
+
+  const [messageState, setMessageState] = useState<ArbitrumOutboxMessageState | null>(null)
+  const [preparing, setPreparing] = useState(false)
+  const [prepareError, setPrepareError] = useState<string | null>(null)
+
+  const isOnCorrectChain = chainId === transaction.targetChainId
+  const targetChainName = getChainName(transaction.targetChainId)
+
+  // The message may already have been executed by someone else
+  useEffect(() => {
+    arbitrumOutboxService.getMessageState(transaction)
+      .then(setMessageState)
+      .catch(error => console.warn('Failed to check outbox message state:', error))
+  }, [transaction])
+
+  // Refresh once an execution lands; a root with a token transfer has a second message to execute
+  useEffect(() => {
+    if (!isConfirmed) {
+      return
+    }
+    // Clear the confirmed write first so a re-render doesn't re-run this
+    reset()
+    arbitrumOutboxService.getMessageState(transaction)
+      .then(setMessageState)
+      .catch(error => console.warn('Failed to refresh outbox message state:', error))
+    onSuccess?.()
+  }, [isConfirmed, transaction, onSuccess, reset])
+
+  const handleExecute = async () => {
+    if (!isOnCorrectChain) {
+      try {
+        await switchChain({ chainId: transaction.targetChainId })
+      } catch (error) {
+        console.error('Failed to switch chain:', error)
+      }
+      return
+    }
+
+    try {
+      setPreparing(true)
+      setPrepareError(null)
+
+      // Anyone can execute; the proof comes from the L2 node interface
+      const contractData = await arbitrumOutboxService.getExecuteTransactionData(transaction)
+
+      writeContract({
+        address: contractData.address,
+        abi: contractData.abi,
+        functionName: contractData.functionName,
+        args: contractData.args
+      })
+    } catch (error) {
+      console.error('Failed to prepare outbox execution:', error)
+      setPrepareError(error instanceof Error ? error.message : 'Failed to prepare outbox execution')
+    } finally {
+      setPreparing(false)
+    }
+  }
+
+  const isExecuted = messageState?.status === 'executed'
+  const messageCount = messageState?.messages.length ?? 0
+  const executedCount = messageState?.statuses.filter(status => status === 'executed').length ?? 0
+  const isBusy = preparing || isPending || isConfirming || isSwitchingChain
+
+  const getButtonText = () => {
+    if (isExecuted) {
+      return `Executed, waiting for ${targetChainName}`
+    }
+    if (!isOnCorrectChain) {
+      return `Switch to ${targetChainName}`
+    }
+    if (preparing) {
+      return 'Building proof...'
+    }
+    if (isPending) {
+      return 'Confirm in wallet...'
+    }
+    if (isConfirming) {
+      return 'Executing...'
+    }
+    if (messageCount > 1) {
+      return `Execute message ${executedCount + 1} of ${messageCount} on ${targetChainName}`
+    }
+    return `Execute on ${targetChainName}`
+  }
+
+  return (
+    <div className="border rounded-lg p-3 bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-800">
+      <div className="flex items-center gap-2 mb-2">
+        <Send className="w-4 h-4 text-purple-600" />
+        <span className="font-medium text-purple-900 dark:text-purple-100 text-sm">
+          Execute Withdrawal
+        </span>
+      </div>
+
+      <p className="text-xs text-purple-700 dark:text-purple-300 mb-3">
+        The challenge period is over. Execute the message through the Arbitrum outbox to deliver it to {targetChainName}.
+        Anyone can do this.
+      </p>
+
+      <button
+        onClick={handleExecute}
+        disabled={isBusy || isExecuted}
+        className="w-full py-2 px-3 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 text-sm"
+      >
+        {isBusy && <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />}
+        {getButtonText()}
+      </button>
+
+      {(error || prepareError) && (
+        <div className="mt-2 text-xs text-red-600 dark:text-red-400">
+          Error: {prepareError ?? error?.message}
+        </div>
+      )}
+    </div>
+  )
+}
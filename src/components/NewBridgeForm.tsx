@@ -1,33 +1,56 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useAccount, useChainId, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { useAccount, useChainId, useWriteContract, useWaitForTransactionReceipt, useSignTypedData, useSendCalls, useWaitForCallsStatus, useCapabilities } from 'wagmi'
 import { jbTokensService } from '@/services/jbTokensService'
 import { jbDirectoryService } from '@/services/jbDirectoryService'
 import { suckerDiscoveryService } from '@/services/suckerDiscoveryService'
-import { tokenService } from '@/services/tokenService'
-import { suckerService } from '@/services/suckerService'
+import { tokenService, type PermitSupport, type PermitParams } from '@/services/tokenService'
+import { suckerService, type PreparePreview, type PrecedingCall } from '@/services/suckerService'
 import { bridgeStorageService } from '@/services/bridgeStorageService'
 import { bridgeDetectionService } from '@/services/bridgeDetectionService'
-import { SuckerPair } from '@/types/bridge'
+import { bridgeStateService } from '@/services/bridgeStateService'
+import { reclaimQuoteService, type ReclaimQuote } from '@/services/reclaimQuoteService'
+import { beneficiaryService, type ResolvedBeneficiary } from '@/services/beneficiaryService'
+import { SuckerPair, type BridgeType } from '@/types/bridge'
 import { getChainName } from '@/utils/chainUtils'
+import { formatEstimatedTime, getBridgeDirectionWarnings } from '@/utils/bridgeUtils'
 import { ChainLogo } from './ChainLogo'
 import { ArrowRight, CheckCircle, AlertCircle, Loader } from './Icons'
-import { type Address, parseUnits, formatUnits } from 'viem'
+import { type Address, type Hex, encodeFunctionData, parseUnits, formatUnits } from 'viem'
 
 interface NewBridgeFormProps {
     onSuccess?: () => void
     onCancel?: () => void
 }
 
+// How long a signed permit stays usable
+const PERMIT_DEADLINE_SECONDS = 30 * 60
+
 export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
     const { isConnected, address } = useAccount()
     const chainId = useChainId()
-    const { writeContract, data: hash, isPending: isWriting } = useWriteContract()
-    const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-        hash,
+    // Approval and prepare() get their own hooks so one's hash is never taken for the other's
+    const { writeContract: writeApproval, data: approvalHash, isPending: isApproving } = useWriteContract()
+    const { isSuccess: isApprovalConfirmed } = useWaitForTransactionReceipt({
+        hash: approvalHash,
+    })
+    const { writeContract: writePrepare, data: prepareHash, isPending: isWriting, reset: resetPrepare } = useWriteContract()
+    const { isLoading: isConfirming, isSuccess: isPrepareConfirmed } = useWaitForTransactionReceipt({
+        hash: prepareHash,
     })
 
+    // Permit path: the permit and prepare() go out as one atomic batch (EIP-5792)
+    const { signTypedDataAsync, isPending: isSigning } = useSignTypedData()
+    const { sendCalls, data: sentCalls, isPending: isSendingCalls, reset: resetCalls } = useSendCalls()
+    const { data: callsStatus, isLoading: isWaitingForCalls } = useWaitForCallsStatus({ id: sentCalls?.id })
+    const { data: capabilities } = useCapabilities({ chainId })
+    const canBatchCalls = capabilities?.atomic?.status === 'supported' || capabilities?.atomic?.status === 'ready'
+
+    // Both hooks are reset when a bridge starts, so only the path it took has data
+    const bridgeHash = sentCalls ? callsStatus?.receipts?.at(-1)?.transactionHash : prepareHash
+    const isBridgeConfirmed = sentCalls ? callsStatus?.status === 'success' : isPrepareConfirmed
+
     // Form state
     const [step, setStep] = useState<'token' | 'pairs' | 'amount'>('token')
     const [tokenAddress, setTokenAddress] = useState('')
@@ -50,7 +73,34 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
     // Transaction state
     const [bridgeTransactionId, setBridgeTransactionId] = useState<string | null>(null)
     const [waitingForEvent, setWaitingForEvent] = useState(false)
-    const [approvalStep, setApprovalStep] = useState<'none' | 'needed' | 'pending' | 'confirmed'>('none')
+    const [approvalStep, setApprovalStep] = useState<'none' | 'needed' | 'pending' | 'signed' | 'confirmed'>('none')
+    const [permitSupport, setPermitSupport] = useState<PermitSupport | null>(null)
+    const [permit, setPermit] = useState<{ params: PermitParams, signature: Hex } | null>(null)
+    const [minTokensReclaimed, setMinTokensReclaimed] = useState('0')
+
+    // Reclaim quote and slippage tolerance (percent)
+    const [reclaimQuote, setReclaimQuote] = useState<ReclaimQuote | null>(null)
+    const [quoteLoading, setQuoteLoading] = useState(false)
+    const [slippage, setSlippage] = useState('')
+    // Explicit opt-in to bridge with no minimum when the reclaim can't be quoted
+    const [allowNoMinimum, setAllowNoMinimum] = useState(false)
+
+    // Simulated prepare() for the entered amount
+    const [preview, setPreview] = useState<PreparePreview | null>(null)
+    const [previewLoading, setPreviewLoading] = useState(false)
+
+    useEffect(() => {
+        setSlippage((reclaimQuoteService.getSlippageBps() / 100).toString())
+    }, [])
+
+    // Optional beneficiary on the destination chain (defaults to the connected wallet)
+    const [beneficiaryInput, setBeneficiaryInput] = useState('')
+    const [resolvedBeneficiary, setResolvedBeneficiary] = useState<ResolvedBeneficiary | null>(null)
+    const [beneficiaryError, setBeneficiaryError] = useState<string | null>(null)
+    const [beneficiaryWarning, setBeneficiaryWarning] = useState<string | null>(null)
+    const [resolvingBeneficiary, setResolvingBeneficiary] = useState(false)
+
+    const recipient = beneficiaryInput.trim() ? resolvedBeneficiary?.address : address
 
     // Load balance when we have all required info
     useEffect(() => {
@@ -65,7 +115,7 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                     chainId,
                     tokenAddress as Address,
                     address,
-                    suckerInfo.address as Address,
+                    suckerInfo.address,
                     '0' // Just get current state
                 )
                 
@@ -81,81 +131,271 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
         loadBalance()
     }, [tokenAddress, address, chainId, selectedPair])
 
-    // Handle bridge transaction confirmation and event listening
+    // Store the bridge as soon as prepare() has a hash (or its permit batch an ID), so it survives the tab closing before confirmation
     useEffect(() => {
-        const handleBridgeEvent = async () => {
-            if (isConfirmed && hash && bridgeTransactionId && selectedPair && terminalToken && address && amount) {
-                try {
-                    setWaitingForEvent(true)
-                    
-                    const suckerInfo = selectedPair.chainA.chainId === chainId ? selectedPair.chainA : selectedPair.chainB
-                    const destinationChain = selectedPair.chainA.chainId === chainId ? selectedPair.chainB : selectedPair.chainA
-
-                    await suckerService.listenForInsertToOutboxTreeEvent(
-                        chainId,
-                        suckerInfo.address as Address,
-                        hash,
-                        async (eventData) => {
-                            let bridgeInfo
-                            try {
-                                bridgeInfo = await bridgeDetectionService.detectSuckerBridge(
-                                    chainId,
-                                    suckerInfo.address as Address
-                                )
-                            } catch (error) {
-                                console.warn('Failed to detect bridge implementation:', error)
-                            }
-                            
-                            bridgeStorageService.storeBridgeTransaction({
-                                id: bridgeTransactionId,
-                                transactionHash: hash,
-                                projectId: projectId!,
-                                sourceChainId: chainId,
-                                targetChainId: destinationChain.chainId,
-                                suckerAddress: suckerInfo.address as Address,
-                                beneficiary: address,
-                                token: terminalToken,
-                                projectTokenCount: amount,
-                                terminalTokenAmount: eventData.terminalTokenAmount,
-                                minTokensReclaimed: '0',
-                                bridgeInfo,
-                                hashed: eventData.hashed,
-                                index: eventData.index,
-                                root: eventData.root,
-                                caller: eventData.caller,
-                                claimProof: null,
-                                claimLeaf: null,
-                                timestamp: Date.now(),
-                                status: 'waiting_to_send'
-                            })
-
-                            setWaitingForEvent(false)
-                            setLoading(false)
-                            
-                            // Reset form
-                            setTokenAddress('')
-                            setAmount('')
-                            setStep('token')
-                            setSelectedPair(null)
-                            setProjectId(null)
-                            setSuckerPairs([])
-                            setTerminalToken(null)
-                            setBridgeTransactionId(null)
-                            
-                            onSuccess?.()
-                        }
-                    )
-                } catch (error) {
-                    console.error('Failed to listen for bridge event:', error)
-                    setError('Failed to confirm bridge transaction')
-                    setWaitingForEvent(false)
-                    setLoading(false)
+        const prepareCallsId = sentCalls?.id
+        if ((!bridgeHash && !prepareCallsId) || !bridgeTransactionId || !selectedPair || !terminalToken || !recipient || !address || !projectId || !amount) return
+
+        const stored = bridgeStorageService.getTransactionById(bridgeTransactionId)
+        if (stored) {
+            // A batch gets its prepare() hash once its receipts are in
+            if (bridgeHash && !stored.transactionHash) {
+                bridgeStorageService.updatePrepareTransactionHash(stored.id, bridgeHash)
+            }
+            return
+        }
+
+        const suckerInfo = selectedPair.chainA.chainId === chainId ? selectedPair.chainA : selectedPair.chainB
+        const destinationChain = selectedPair.chainA.chainId === chainId ? selectedPair.chainB : selectedPair.chainA
+
+        // Leaf fields stay empty until the receipt's InsertToOutboxTree event fills them in
+        bridgeStorageService.storeBridgeTransaction({
+            id: bridgeTransactionId,
+            transactionHash: bridgeHash ?? '',
+            prepareCallsId,
+            projectId,
+            sourceChainId: chainId,
+            targetChainId: destinationChain.chainId,
+            suckerAddress: suckerInfo.address,
+            beneficiary: recipient,
+            token: terminalToken,
+            projectTokenCount: amount,
+            terminalTokenAmount: '0',
+            minTokensReclaimed,
+            hashed: '',
+            index: '',
+            root: '',
+            caller: address,
+            claimProof: null,
+            claimLeaf: null,
+            timestamp: Date.now(),
+            status: 'initiated'
+        })
+    }, [bridgeHash, sentCalls?.id, bridgeTransactionId, selectedPair, terminalToken, recipient, address, projectId, amount, minTokensReclaimed, chainId])
+
+    // Finalize the stored bridge once prepare() confirms
+    useEffect(() => {
+        if (!isBridgeConfirmed || !bridgeTransactionId) return
+
+        const transaction = bridgeStorageService.getTransactionById(bridgeTransactionId)
+        if (!transaction) return
+
+        let cancelled = false
+        setWaitingForEvent(true)
+
+        bridgeStateService.finalizePendingPrepare(transaction)
+            .then(status => {
+                if (cancelled) return
+                setWaitingForEvent(false)
+                setLoading(false)
+                setBridgeTransactionId(null)
+
+                if (status === 'prepare_reverted') {
+                    setError('The bridge transaction reverted')
+                    return
+                }
+                if (status === 'prepare_dropped') {
+                    setError('The bridge transaction never confirmed')
+                    return
+                }
+
+                // Reset form
+                setTokenAddress('')
+                setAmount('')
+                setStep('token')
+                setSelectedPair(null)
+                setProjectId(null)
+                setSuckerPairs([])
+                setTerminalToken(null)
+                setMinTokensReclaimed('0')
+                setBeneficiaryInput('')
+                setPermit(null)
+
+                onSuccess?.()
+            })
+            .catch(error => {
+                if (cancelled) return
+                console.error('Failed to confirm bridge transaction:', error)
+                setError('Failed to confirm bridge transaction, it will keep being tracked in your bridge history')
+                setWaitingForEvent(false)
+                setLoading(false)
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [isBridgeConfirmed, bridgeTransactionId, onSuccess])
+
+    // A reverted batch leaves the permit unused, so fall back to a fresh signature or approval
+    useEffect(() => {
+        if (callsStatus?.status === 'failure') {
+            setError('The permit and bridge transaction reverted')
+            setPermit(null)
+            setLoading(false)
+        }
+    }, [callsStatus])
+
+    // Check whether the project token takes EIP-2612 permits from this wallet
+    useEffect(() => {
+        setPermitSupport(null)
+        setPermit(null)
+        if (!tokenAddress || !address || !selectedPair) {
+            return
+        }
+
+        let cancelled = false
+        tokenService.getPermitSupport(chainId, tokenAddress as Address, address)
+            .then(support => {
+                if (!cancelled) {
+                    setPermitSupport(support)
                 }
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [tokenAddress, address, selectedPair, chainId])
+
+    // Resolve the entered beneficiary (address or ENS name) and check it can receive on the destination
+    useEffect(() => {
+        setResolvedBeneficiary(null)
+        setBeneficiaryError(null)
+        setBeneficiaryWarning(null)
+        if (!beneficiaryInput.trim() || !selectedPair) {
+            setResolvingBeneficiary(false)
+            return
+        }
+
+        const destinationChainId = selectedPair.chainA.chainId === chainId ? selectedPair.chainB.chainId : selectedPair.chainA.chainId
+
+        let cancelled = false
+        setResolvingBeneficiary(true)
+        // Wait for typing to settle before hitting ENS
+        const timeout = setTimeout(async () => {
+            try {
+                const resolved = await beneficiaryService.resolveBeneficiary(beneficiaryInput)
+                if (cancelled) return
+                setResolvedBeneficiary(resolved)
+
+                const code = await beneficiaryService.getRecipientCode(resolved.address, chainId, destinationChainId)
+                if (cancelled) return
+                if (code.isContractOnSource && !code.isContractOnTarget) {
+                    setBeneficiaryWarning(`This address is a contract on ${getChainName(chainId)} but has no code on ${getChainName(destinationChainId)}. Tokens claimed to it may be unrecoverable.`)
+                }
+            } catch (error) {
+                if (!cancelled) {
+                    setBeneficiaryError(error instanceof Error ? error.message : 'Could not resolve beneficiary')
+                }
+            } finally {
+                if (!cancelled) {
+                    setResolvingBeneficiary(false)
+                }
+            }
+        }, 400)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timeout)
+        }
+    }, [beneficiaryInput, selectedPair, chainId])
+
+    // Quote the terminal token reclaim for the entered amount
+    useEffect(() => {
+        setReclaimQuote(null)
+        setAllowNoMinimum(false)
+        if (!amount || !projectId || !terminalToken || !tokenDecimals) {
+            return
+        }
+
+        let projectTokenCount: bigint
+        try {
+            projectTokenCount = parseUnits(amount, tokenDecimals)
+        } catch {
+            return
+        }
+        if (projectTokenCount === BigInt(0)) {
+            return
+        }
+
+        let cancelled = false
+        setQuoteLoading(true)
+        reclaimQuoteService.getReclaimQuote(chainId, projectId, terminalToken, projectTokenCount)
+            .then(quote => {
+                if (!cancelled) {
+                    setReclaimQuote(quote)
+                }
+            })
+            .catch(error => console.warn('Failed to quote reclaim amount:', error))
+            .finally(() => {
+                if (!cancelled) {
+                    setQuoteLoading(false)
+                }
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [amount, projectId, terminalToken, tokenDecimals, chainId])
+
+    const slippageBps = Math.round(parseFloat(slippage) * 100)
+    const quotedMinReclaimed = reclaimQuote && reclaimQuoteService.isValidSlippageBps(slippageBps)
+        ? reclaimQuoteService.getMinTokensReclaimed(reclaimQuote.reclaimAmount, slippageBps)
+        : null
+    const effectiveMinReclaimed = reclaimQuote ? quotedMinReclaimed : allowNoMinimum ? BigInt(0) : null
+
+    // Simulate prepare() once it has a minimum to catch reverts before the wallet prompt.
+    // A signed permit or a missing approval is simulated in the same run, ahead of prepare().
+    useEffect(() => {
+        setPreview(null)
+        if (!selectedPair || !terminalToken || !address || !recipient || !amount || !tokenAddress || effectiveMinReclaimed === null) {
+            return
+        }
+        if (approvalStep !== 'confirmed' && approvalStep !== 'needed' && !(approvalStep === 'signed' && permit)) {
+            return
+        }
+
+        const suckerInfo = selectedPair.chainA.chainId === chainId ? selectedPair.chainA : selectedPair.chainB
+
+        let precedingCalls: PrecedingCall[] = []
+        try {
+            if (approvalStep === 'signed' && permit) {
+                precedingCalls = [{
+                    to: tokenAddress as Address,
+                    data: encodeFunctionData(tokenService.getPermitFunctionData(permit.params, permit.signature))
+                }]
+            } else if (approvalStep === 'needed') {
+                precedingCalls = [{
+                    to: tokenAddress as Address,
+                    data: encodeFunctionData(tokenService.getApproveFunctionData(suckerInfo.address, parseUnits(amount, tokenDecimals)))
+                }]
             }
+        } catch {
+            return
         }
 
-        handleBridgeEvent()
-    }, [isConfirmed, hash, bridgeTransactionId, selectedPair, terminalToken, address, amount, chainId, projectId, onSuccess])
+        let cancelled = false
+        setPreviewLoading(true)
+        suckerService.simulatePrepare(chainId, suckerInfo.address, {
+            projectTokenCount: amount,
+            beneficiary: recipient,
+            minTokensReclaimed: effectiveMinReclaimed.toString(),
+            token: terminalToken
+        }, tokenDecimals, address, precedingCalls)
+            .then(result => {
+                if (!cancelled) {
+                    setPreview(result)
+                }
+            })
+            .catch(error => console.warn('Failed to simulate prepare():', error))
+            .finally(() => {
+                if (!cancelled) {
+                    setPreviewLoading(false)
+                }
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [selectedPair, terminalToken, tokenAddress, address, recipient, amount, approvalStep, permit, effectiveMinReclaimed, tokenDecimals, chainId])
 
     // Check approval status when amount changes
     useEffect(() => {
@@ -171,6 +411,7 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
             const requiredAmount = parseUnits(amount, tokenDecimals)
             const hasBalance = tokenBalance >= requiredAmount
             const hasAllowance = tokenAllowance >= requiredAmount
+            const hasPermit = !!permit && permit.params.value >= requiredAmount && permit.params.deadline * BigInt(1000) > BigInt(Date.now())
             
             console.log('Approval check:', {
                 requiredAmount: requiredAmount.toString(),
@@ -184,6 +425,9 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                 console.log('Insufficient balance')
                 setApprovalStep('none')
                 setError(`Insufficient balance. You have ${formatUnits(tokenBalance, tokenDecimals)} tokens`)
+            } else if (!hasAllowance && hasPermit) {
+                setApprovalStep('signed')
+                setError(null)
             } else if (!hasAllowance) {
                 console.log('Sufficient balance but insufficient allowance - approval needed')
                 setApprovalStep('needed')
@@ -197,18 +441,18 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
             console.error('Error in approval check:', error)
             setApprovalStep('none')
         }
-    }, [amount, tokenBalance, tokenAllowance, tokenDecimals])
+    }, [amount, tokenBalance, tokenAllowance, tokenDecimals, permit])
 
     // Handle approval confirmation
     useEffect(() => {
-        if (isConfirmed && hash && approvalStep === 'pending') {
+        if (isApprovalConfirmed && approvalHash && approvalStep === 'pending') {
             console.log('Approval transaction confirmed, updating allowance...')
             setApprovalStep('confirmed')
             
             // Reload allowance after approval
             if (tokenAddress && address && selectedPair) {
                 const suckerInfo = selectedPair.chainA.chainId === chainId ? selectedPair.chainA : selectedPair.chainB
-                tokenService.getTokenAllowance(chainId, tokenAddress as Address, address, suckerInfo.address as Address)
+                tokenService.getTokenAllowance(chainId, tokenAddress as Address, address, suckerInfo.address)
                     .then((newAllowance) => {
                         console.log('Updated allowance:', newAllowance.toString())
                         setTokenAllowance(newAllowance)
@@ -216,7 +460,7 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                     .catch(console.error)
             }
         }
-    }, [isConfirmed, hash, approvalStep, tokenAddress, address, selectedPair, chainId])
+    }, [isApprovalConfirmed, approvalHash, approvalStep, tokenAddress, address, selectedPair, chainId])
 
     const handleTokenLookup = async () => {
         if (!tokenAddress || !chainId) {
@@ -247,14 +491,11 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                 return
             }
 
-            // Check if any CCIP bridges are available
-            const ccipPairs = relevantPairs.filter(pair => {
-                const sourceChain = pair.chainA.chainId === chainId ? pair.chainA : pair.chainB
-                return sourceChain.bridgeInfo?.bridgeInfo.type === 'CCIP'
-            })
+            // Bridges whose implementation couldn't be detected can't be paid or tracked correctly
+            const supportedPairs = relevantPairs.filter(pair => getSourceBridgeType(pair) !== 'unknown')
 
-            if (ccipPairs.length === 0) {
-                setError('No CCIP bridges available for this token. Only CCIP bridges are currently supported.')
+            if (supportedPairs.length === 0) {
+                setError('Could not determine the bridge implementation for any of this token\'s bridges')
                 return
             }
 
@@ -278,7 +519,7 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
             const supportedToken = await jbDirectoryService.getSupportedTerminalTokenForProject(
                 chainId,
                 projectId!,
-                suckerInfo.address as Address
+                suckerInfo.address
             )
 
             if (!supportedToken) {
@@ -318,7 +559,7 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
 
             console.log('Approving amount:', approvalAmount.toString(), 'for spender:', suckerInfo.address)
 
-            writeContract({
+            writeApproval({
                 address: tokenAddress as Address,
                 abi: [
                     {
@@ -333,7 +574,7 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                     }
                 ],
                 functionName: 'approve',
-                args: [suckerInfo.address as Address, approvalAmount]
+                args: [suckerInfo.address, approvalAmount]
             })
         } catch (err) {
             console.error('Failed to approve token:', err)
@@ -342,27 +583,99 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
         }
     }
 
+    const handleSignPermit = async () => {
+        if (!selectedPair || !tokenAddress || !amount || !address || !permitSupport) return
+
+        try {
+            const suckerInfo = selectedPair.chainA.chainId === chainId ? selectedPair.chainA : selectedPair.chainB
+            const params: PermitParams = {
+                owner: address,
+                spender: suckerInfo.address,
+                value: parseUnits(amount, tokenDecimals),
+                deadline: BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS)
+            }
+
+            const signature = await signTypedDataAsync(
+                tokenService.getPermitTypedData(chainId, tokenAddress as Address, permitSupport, params)
+            )
+            setPermit({ params, signature })
+        } catch (err) {
+            console.error('Failed to sign permit:', err)
+            setError('Failed to sign permit')
+        }
+    }
+
     const handleBridge = async () => {
-        if (!selectedPair || !terminalToken || !amount || !address || approvalStep !== 'confirmed') return
+        if (!selectedPair || !terminalToken || !amount || !recipient || (approvalStep !== 'confirmed' && approvalStep !== 'signed')) return
 
         try {
             setLoading(true)
             setError(null)
 
             const suckerInfo = selectedPair.chainA.chainId === chainId ? selectedPair.chainA : selectedPair.chainB
+
+            if (!reclaimQuote && !allowNoMinimum) {
+                setError('Could not quote the reclaim amount, confirm bridging without a minimum to continue')
+                setLoading(false)
+                return
+            }
+
+            if (effectiveMinReclaimed === null) {
+                setError('Slippage tolerance must be between 0% and 50%')
+                setLoading(false)
+                return
+            }
+            if (reclaimQuote) {
+                reclaimQuoteService.saveSlippageBps(slippageBps)
+            }
+
+            const minReclaimed = effectiveMinReclaimed.toString()
+            setMinTokensReclaimed(minReclaimed)
             
+            // Drop a previous bridge's hash or batch so it can't be stored under this one
+            resetPrepare()
+            resetCalls()
+
             const transactionId = `bridge-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
             setBridgeTransactionId(transactionId)
 
             const contractData = suckerService.getPrepareFunctionData({
                 projectTokenCount: amount,
-                beneficiary: address,
-                minTokensReclaimed: '0',
+                beneficiary: recipient,
+                minTokensReclaimed: minReclaimed,
                 token: terminalToken
             }, tokenDecimals)
 
-            writeContract({
-                address: suckerInfo.address as Address,
+            if (approvalStep === 'signed' && permit) {
+                // prepare() pulls the tokens with transferFrom, so the permit just has to land first in the batch
+                const permitData = tokenService.getPermitFunctionData(permit.params, permit.signature)
+                sendCalls({
+                    calls: [
+                        {
+                            to: tokenAddress as Address,
+                            abi: permitData.abi,
+                            functionName: permitData.functionName,
+                            args: permitData.args
+                        },
+                        {
+                            to: suckerInfo.address,
+                            abi: contractData.abi,
+                            functionName: contractData.functionName,
+                            args: contractData.args
+                        }
+                    ]
+                }, {
+                    onError: (err) => {
+                        console.error('Failed to send permit and prepare batch:', err)
+                        setError('Failed to send the permit and bridge transaction')
+                        setLoading(false)
+                    }
+                })
+                return
+            }
+
+            writePrepare({
+                address: suckerInfo.address,
                 abi: contractData.abi,
                 functionName: contractData.functionName,
                 args: contractData.args
@@ -378,6 +691,20 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
         return pair.chainA.chainId === chainId ? pair.chainB : pair.chainA
     }
 
+    const getSourceBridgeType = (pair: SuckerPair): BridgeType => {
+        const sourceChain = pair.chainA.chainId === chainId ? pair.chainA : pair.chainB
+        return sourceChain.bridgeInfo?.bridgeInfo.type ?? 'unknown'
+    }
+
+    const getDirectionConfig = (pair: SuckerPair) => {
+        const bridgeType = getSourceBridgeType(pair)
+        const direction = bridgeDetectionService.getBridgeDirection(chainId, getDestinationChain(pair).chainId)
+        const directionConfig = bridgeDetectionService.getBridgeDirectionConfig(bridgeType, chainId, getDestinationChain(pair).chainId)
+        return { bridgeType, direction, directionConfig }
+    }
+
+    const selectedDirection = selectedPair ? getDirectionConfig(selectedPair) : null
+
     const formatBalance = (balance: bigint, decimals: number) => {
         const formatted = formatUnits(balance, decimals)
         const num = parseFloat(formatted)
@@ -493,16 +820,17 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                             // Get bridge info for the source chain sucker
                             const sourceChain = pair.chainA.chainId === chainId ? pair.chainA : pair.chainB
                             const bridgeInfo = sourceChain.bridgeInfo
-                            const isCCIP = bridgeInfo?.bridgeInfo.type === 'CCIP'
+                            const { bridgeType, directionConfig } = getDirectionConfig(pair)
+                            const isSupported = bridgeType !== 'unknown'
                             const bridgeDisplayName = bridgeInfo?.bridgeInfo.displayName || 'Unknown Bridge'
                             
                             return (
                                 <button
                                     key={pair.id}
                                     onClick={() => handlePairSelection(pair)}
-                                    disabled={loading || !isCCIP}
+                                    disabled={loading || !isSupported}
                                     className={`w-full p-4 border rounded-lg transition-colors text-left ${
-                                        isCCIP 
+                                        isSupported 
                                             ? 'border-gray-200 dark:border-gray-600 hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20' 
                                             : 'border-gray-300 dark:border-gray-500 bg-gray-50 dark:bg-gray-800 opacity-60 cursor-not-allowed'
                                     }`}
@@ -526,12 +854,14 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                                                 </div>
                                                 <div className="text-sm text-gray-500 dark:text-gray-400">
                                                     {bridgeDisplayName}
-                                                    {!isCCIP && ' (Not supported)'}
+                                                    {isSupported
+                                                        ? ` · ${formatEstimatedTime(directionConfig.estimatedTimeMinutes)}`
+                                                        : ' (Not supported)'}
                                                 </div>
                                             </div>
                                         </div>
                                         <div className="flex items-center gap-2">
-                                            {!isCCIP && (
+                                            {!isSupported && (
                                                 <span className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 rounded">
                                                     Disabled
                                                 </span>
@@ -575,6 +905,22 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                         </div>
                     </div>
 
+                    {/* Direction-specific notes */}
+                    {selectedDirection && (
+                        <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                            <div>
+                                Estimated time: {formatEstimatedTime(selectedDirection.directionConfig.estimatedTimeMinutes)}
+                                {selectedDirection.directionConfig.requiresPayment ? ' · Sending to the destination requires a bridge fee' : ''}
+                            </div>
+                            {getBridgeDirectionWarnings(selectedDirection.bridgeType, selectedDirection.directionConfig, selectedDirection.direction).map(warning => (
+                                <div key={warning} className="flex items-center gap-1 text-yellow-700 dark:text-yellow-400">
+                                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                                    {warning}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Amount Input */}
                     <div>
                         <div className="flex items-center justify-between mb-2">
@@ -604,6 +950,124 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                         />
                     </div>
 
+                    {/* Beneficiary */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            Beneficiary on {getChainName(getDestinationChain(selectedPair).chainId)} (optional)
+                        </label>
+                        <input
+                            type="text"
+                            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono text-sm"
+                            value={beneficiaryInput}
+                            onChange={(e) => setBeneficiaryInput(e.target.value)}
+                            placeholder={address ?? '0x... or name.eth'}
+                            disabled={loading}
+                        />
+                        <div className="mt-1 text-xs space-y-1">
+                            {resolvingBeneficiary && (
+                                <div className="text-gray-500 dark:text-gray-400">Resolving...</div>
+                            )}
+                            {beneficiaryError && (
+                                <div className="text-red-600 dark:text-red-400">{beneficiaryError}</div>
+                            )}
+                            {resolvedBeneficiary?.ensName && (
+                                <div className="text-gray-600 dark:text-gray-400 font-mono break-all">{resolvedBeneficiary.address}</div>
+                            )}
+                            {beneficiaryWarning && (
+                                <div className="flex items-start gap-1 text-yellow-700 dark:text-yellow-400">
+                                    <AlertCircle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+                                    {beneficiaryWarning}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Reclaim quote & slippage */}
+                    {amount && (
+                        <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="text-gray-600 dark:text-gray-400">Expected reclaim (after fees)</span>
+                                <span className="text-gray-900 dark:text-gray-100">
+                                    {quoteLoading
+                                        ? 'Quoting...'
+                                        : reclaimQuote
+                                            ? formatBalance(reclaimQuote.reclaimAmount, reclaimQuote.context.decimals)
+                                            : 'Unavailable'}
+                                </span>
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <label className="text-gray-600 dark:text-gray-400">Slippage tolerance</label>
+                                <div className="flex items-center gap-1">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={50}
+                                        step={0.1}
+                                        className="w-20 p-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm text-right"
+                                        value={slippage}
+                                        onChange={(e) => setSlippage(e.target.value)}
+                                    />
+                                    <span className="text-gray-500 dark:text-gray-400">%</span>
+                                </div>
+                            </div>
+                            {reclaimQuote && quotedMinReclaimed !== null && (
+                                <div className="flex items-center justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Minimum reclaimed</span>
+                                    <span className="text-gray-900 dark:text-gray-100">
+                                        {formatBalance(quotedMinReclaimed, reclaimQuote.context.decimals)}
+                                    </span>
+                                </div>
+                            )}
+                            {!quoteLoading && !reclaimQuote && (
+                                <label className="flex items-start gap-2 text-yellow-700 dark:text-yellow-400">
+                                    <input
+                                        type="checkbox"
+                                        className="mt-0.5"
+                                        checked={allowNoMinimum}
+                                        onChange={(e) => setAllowNoMinimum(e.target.checked)}
+                                    />
+                                    Bridge without a minimum. The reclaim can&apos;t be quoted, so the cash-out will accept any amount.
+                                </label>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Simulated prepare() */}
+                    {(previewLoading || preview) && (
+                        <div className={`p-3 rounded-lg text-sm space-y-2 border ${
+                            preview?.revertReason
+                                ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                                : 'bg-gray-50 dark:bg-gray-700 border-transparent'
+                        }`}>
+                            {previewLoading ? (
+                                <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                                    <Loader className="w-4 h-4 animate-spin" />
+                                    Simulating bridge...
+                                </div>
+                            ) : preview?.revertReason ? (
+                                <div className="flex items-start gap-2 text-red-700 dark:text-red-300">
+                                    <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                    <span className="break-words">This bridge would revert: {preview.revertReason}</span>
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-gray-600 dark:text-gray-400">Backing sent to {getChainName(getDestinationChain(selectedPair).chainId)}</span>
+                                        <span className="text-gray-900 dark:text-gray-100">
+                                            {preview?.terminalTokenAmount != null && reclaimQuote
+                                                ? formatBalance(preview.terminalTokenAmount, reclaimQuote.context.decimals)
+                                                : 'Not available from this RPC'}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-gray-600 dark:text-gray-400">Tokens issued on {getChainName(getDestinationChain(selectedPair).chainId)}</span>
+                                        <span className="text-gray-900 dark:text-gray-100">{amount}</span>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    )}
+
                     {/* Approval Section */}
                     {approvalStep === 'needed' && (
                         <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
@@ -616,20 +1080,29 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                             <p className="text-sm text-yellow-700 dark:text-yellow-300 mb-3">
                                 You need to approve the bridge contract to spend your tokens.
                             </p>
+                            {permitSupport && canBatchCalls && (
+                                <button
+                                    onClick={handleSignPermit}
+                                    disabled={isApproving || isSigning}
+                                    className="w-full mb-2 py-2 px-3 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 disabled:opacity-50 text-sm"
+                                >
+                                    {isSigning ? 'Signing...' : `Sign permit for ${amount} (no separate approval)`}
+                                </button>
+                            )}
                             <div className="flex gap-2">
                                 <button
                                     onClick={() => handleApproval(false)}
-                                    disabled={isWriting}
+                                    disabled={isApproving}
                                     className="flex-1 py-2 px-3 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 disabled:opacity-50 text-sm"
                                 >
-                                    {isWriting ? 'Approving...' : `Approve ${amount}`}
+                                    {isApproving ? 'Approving...' : `Approve ${amount}`}
                                 </button>
                                 <button
                                     onClick={() => handleApproval(true)}
-                                    disabled={isWriting}
+                                    disabled={isApproving}
                                     className="flex-1 py-2 px-3 bg-yellow-700 text-white rounded-md hover:bg-yellow-800 disabled:opacity-50 text-sm"
                                 >
-                                    {isWriting ? 'Approving...' : 'Approve Unlimited'}
+                                    {isApproving ? 'Approving...' : 'Approve Unlimited'}
                                 </button>
                             </div>
                         </div>
@@ -646,6 +1119,17 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                         </div>
                     )}
 
+                    {approvalStep === 'signed' && (
+                        <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+                            <div className="flex items-center gap-2">
+                                <CheckCircle className="w-4 h-4 text-green-600" />
+                                <span className="text-sm text-green-800 dark:text-green-200">
+                                    Permit signed! It is sent together with the bridge in one transaction.
+                                </span>
+                            </div>
+                        </div>
+                    )}
+
                     {approvalStep === 'confirmed' && (
                         <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
                             <div className="flex items-center gap-2">
@@ -660,13 +1144,13 @@ export function NewBridgeForm({ onSuccess, onCancel }: NewBridgeFormProps) {
                     {/* Bridge Button */}
                     <button
                         onClick={handleBridge}
-                        disabled={loading || approvalStep !== 'confirmed' || !amount || isWriting || isConfirming || waitingForEvent}
+                        disabled={loading || (approvalStep !== 'confirmed' && approvalStep !== 'signed') || !amount || !recipient || (!reclaimQuote && !allowNoMinimum) || !!preview?.revertReason || isWriting || isSendingCalls || isConfirming || isWaitingForCalls || waitingForEvent}
                         className="w-full py-3 px-4 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
                     >
-                        {loading || isWriting || isConfirming || waitingForEvent ? (
+                        {loading || isWriting || isSendingCalls || isConfirming || isWaitingForCalls || waitingForEvent ? (
                             <>
                                 <Loader className="w-4 h-4 animate-spin" />
-                                {waitingForEvent ? 'Confirming...' : isConfirming ? 'Processing...' : 'Initiating Bridge...'}
+                                {waitingForEvent ? 'Confirming...' : isConfirming || isWaitingForCalls ? 'Processing...' : 'Initiating Bridge...'}
                             </>
                         ) : approvalStep === 'needed' ? (
                             <>
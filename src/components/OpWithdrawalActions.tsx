@@ -0,0 +1,189 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAccount, useWriteContract, useWaitForTransactionReceipt, useSwitchChain } from 'wagmi'
+import { type StoredBridgeTransaction, bridgeStorageService } from '@/services/bridgeStorageService'
+import { optimismWithdrawalService } from '@/services/optimismWithdrawalService'
+import { type OpWithdrawalStatus } from '@/types/bridge'
+import { getChainName } from '@/utils/chainUtils'
+import { formatCountdown } from '@/utils/bridgeUtils'
+import { Clock, Send } from './Icons'
+
+interface OpWithdrawalActionsProps {
+  transaction: StoredBridgeTransaction
+}
+
+const STEP_LABELS: Record<OpWithdrawalStatus, string> = {
+  waiting_to_prove: 'Waiting for a dispute game',
+  ready_to_prove: 'Ready to prove',
+  waiting_to_finalize: 'Proven, in the challenge period',
+  ready_to_finalize: 'Ready to finalize',
+  finalized: 'Finalized'
+}
+
+export function OpWithdrawalActions({ transaction }: OpWithdrawalActionsProps) {
+  const { chainId } = useAccount()
+  const { writeContract, data: hash, error, isPending, reset } = useWriteContract()
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  })
+
+  const [preparing, setPreparing] = useState(false)
+  const [prepareError, setPrepareError] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+
+  const withdrawal = transaction.opWithdrawal
+  const countdownTarget = withdrawal?.status === 'waiting_to_prove'
+    ? withdrawal.proveAvailableAt
+    : withdrawal?.status === 'waiting_to_finalize' ? withdrawal.finalizeAvailableAt : undefined
+
+  const isOnCorrectChain = chainId === transaction.targetChainId
+  const targetChainName = getChainName(transaction.targetChainId)
+
+  // Tick the countdown
+  useEffect(() => {
+    if (!countdownTarget) {
+      return
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [countdownTarget])
+
+  // Refresh the sub-state once a prove or finalize lands; a root with a token
+  // transfer has a second withdrawal that needs the same step
+  useEffect(() => {
+    if (!isConfirmed) {
+      return
+    }
+    // Clear the confirmed write first so the store update below doesn't re-run this
+    reset()
+    optimismWithdrawalService.getWithdrawalState(transaction)
+      .then(state => {
+        if (state) {
+          bridgeStorageService.updateTransactionOpWithdrawal(transaction.id, state)
+        }
+      })
+      .catch(error => console.warn('Failed to refresh OP withdrawal state:', error))
+  }, [isConfirmed, transaction, reset])
+
+  if (!withdrawal) {
+    return null
+  }
+
+  const canProve = withdrawal.status === 'ready_to_prove'
+  const canFinalize = withdrawal.status === 'ready_to_finalize'
+
+  const handleAction = async () => {
+    if (!isOnCorrectChain) {
+      try {
+        await switchChain({ chainId: transaction.targetChainId })
+      } catch (error) {
+        console.error('Failed to switch chain:', error)
+      }
+      return
+    }
+
+    try {
+      setPreparing(true)
+      setPrepareError(null)
+
+      if (canProve) {
+        // The withdrawal proof comes from the L2 state at the dispute game's block
+        const contractData = await optimismWithdrawalService.getProveWithdrawalData(transaction)
+        writeContract({
+          address: contractData.address,
+          abi: contractData.abi,
+          functionName: contractData.functionName,
+          args: contractData.args
+        })
+      } else {
+        // Narrowed per function so the args type-check against the right overload
+        const contractData = await optimismWithdrawalService.getFinalizeWithdrawalData(transaction)
+        if (contractData.functionName === 'finalizeWithdrawalTransactionExternalProof') {
+          writeContract({
+            address: contractData.address,
+            abi: contractData.abi,
+            functionName: contractData.functionName,
+            args: contractData.args
+          })
+        } else {
+          writeContract({
+            address: contractData.address,
+            abi: contractData.abi,
+            functionName: contractData.functionName,
+            args: contractData.args
+          })
+        }
+      }
+    } catch (error) {
+      console.error('Failed to prepare OP withdrawal step:', error)
+      setPrepareError(error instanceof Error ? error.message : 'Failed to prepare withdrawal step')
+    } finally {
+      setPreparing(false)
+    }
+  }
+
+  const isBusy = preparing || isPending || isConfirming || isSwitchingChain
+  const actionName = canProve ? 'Prove' : 'Finalize'
+
+  const getButtonText = () => {
+    if (!isOnCorrectChain) {
+      return `Switch to ${targetChainName}`
+    }
+    if (preparing) {
+      return canProve ? 'Building proof...' : 'Preparing...'
+    }
+    if (isPending) {
+      return 'Confirm in wallet...'
+    }
+    if (isConfirming) {
+      return canProve ? 'Proving...' : 'Finalizing...'
+    }
+    return `${actionName} on ${targetChainName}`
+  }
+
+  return (
+    <div className="border rounded-lg p-3 bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-800">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Send className="w-4 h-4 text-purple-600" />
+          <span className="font-medium text-purple-900 dark:text-purple-100 text-sm">
+            {STEP_LABELS[withdrawal.status]}
+          </span>
+        </div>
+        {countdownTarget && countdownTarget > now && (
+          <span className="flex items-center gap-1 text-xs text-purple-700 dark:text-purple-300">
+            <Clock className="w-3 h-3" />
+            {formatCountdown(countdownTarget, now)}
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs text-purple-700 dark:text-purple-300">
+        {withdrawal.status === 'waiting_to_prove' && 'The withdrawal can be proven once a dispute game covers its L2 block.'}
+        {canProve && `Prove the withdrawal on ${targetChainName} to start the challenge period.`}
+        {withdrawal.status === 'waiting_to_finalize' && 'The withdrawal can be finalized once the proof matures.'}
+        {canFinalize && `Finalize the withdrawal on ${targetChainName} to deliver it. Anyone can do this.`}
+        {withdrawal.status === 'finalized' && `Finalized, waiting for ${targetChainName} to pick it up.`}
+      </p>
+
+      {(canProve || canFinalize) && (
+        <button
+          onClick={handleAction}
+          disabled={isBusy}
+          className="w-full mt-3 py-2 px-3 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 text-sm"
+        >
+          {isBusy && <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />}
+          {getButtonText()}
+        </button>
+      )}
+
+      {(error || prepareError) && (
+        <div className="mt-2 text-xs text-red-600 dark:text-red-400">
+          Error: {prepareError ?? error?.message}
+        </div>
+      )}
+    </div>
+  )
+}
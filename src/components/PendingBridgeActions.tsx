@@ -17,10 +17,10 @@ export function PendingBridgeActions() {
     // Initial load
     updateGroupedTransactions()
 
-    // Update every 5 seconds to check for status changes
-    const interval = setInterval(updateGroupedTransactions, 5000)
+    // Status changes are written to storage, which notifies on every update
+    window.addEventListener('bridge-transactions-updated', updateGroupedTransactions)
 
-    return () => clearInterval(interval)
+    return () => window.removeEventListener('bridge-transactions-updated', updateGroupedTransactions)
   }, [])
 
   if (groupedTransactions.size === 0) {
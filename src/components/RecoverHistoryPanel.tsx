@@ -0,0 +1,117 @@
+'use client'
+
+import { useState } from 'react'
+import { useAccount } from 'wagmi'
+import { isAddress, type Address } from 'viem'
+import { jbTokensService } from '@/services/jbTokensService'
+import { historyRecoveryService, type RecoveryProgress } from '@/services/historyRecoveryService'
+import { getChainName } from '@/utils/chainUtils'
+import { AlertCircle, CheckCircle, Loader } from './Icons'
+
+interface RecoverHistoryPanelProps {
+  onRecovered?: (count: number) => void
+  onClose?: () => void
+}
+
+export function RecoverHistoryPanel({ onRecovered, onClose }: RecoverHistoryPanelProps) {
+  const { address, chainId } = useAccount()
+  const [tokenAddress, setTokenAddress] = useState('')
+  const [isRecovering, setIsRecovering] = useState(false)
+  const [progress, setProgress] = useState<RecoveryProgress | null>(null)
+  const [result, setResult] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRecover = async () => {
+    if (!address || !chainId) {
+      setError('Connect a wallet to recover its bridge history')
+      return
+    }
+    if (!isAddress(tokenAddress)) {
+      setError('Enter a valid project token address')
+      return
+    }
+
+    setIsRecovering(true)
+    setProgress(null)
+    setResult(null)
+    setError(null)
+
+    try {
+      const projectId = await jbTokensService.getProjectIdForToken(chainId, tokenAddress as Address)
+      if (!projectId) {
+        throw new Error(`Token is not a Juicebox project token on ${getChainName(chainId)}`)
+      }
+
+      const { recovered, failedSuckers } = await historyRecoveryService.recoverHistory(chainId, projectId, [address], setProgress)
+
+      setResult(
+        `Recovered ${recovered.length} bridge transaction${recovered.length !== 1 ? 's' : ''}` +
+        (failedSuckers.length > 0 ? ` (${failedSuckers.length} sucker${failedSuckers.length !== 1 ? 's' : ''} could not be scanned)` : '')
+      )
+      onRecovered?.(recovered.length)
+    } catch (err) {
+      console.error('Failed to recover bridge history:', err)
+      setError(err instanceof Error ? err.message : 'Failed to recover bridge history')
+    } finally {
+      setIsRecovering(false)
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-4 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-900 dark:text-gray-100">Recover history</h3>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+        Scan every sucker of a project for bridges to your connected wallet, e.g. after clearing browser storage or switching devices.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className="flex-1 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono text-sm"
+          value={tokenAddress}
+          onChange={(e) => setTokenAddress(e.target.value.trim())}
+          placeholder={`Project token address on ${chainId ? getChainName(chainId) : 'the connected chain'}`}
+          disabled={isRecovering}
+        />
+        <button
+          onClick={handleRecover}
+          disabled={isRecovering || !tokenAddress}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 flex items-center gap-2"
+        >
+          {isRecovering && <Loader className="w-4 h-4 animate-spin" />}
+          {isRecovering ? 'Scanning...' : 'Scan'}
+        </button>
+      </div>
+
+      {isRecovering && progress && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Scanned {progress.scannedSuckers} of {progress.totalSuckers} suckers, found {progress.recovered}
+        </p>
+      )}
+
+      {result && (
+        <div className="flex items-center gap-2 mt-3 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{result}</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 mt-3 text-sm text-red-700 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { rpcSettingsService } from '@/services/rpcSettingsService'
+import { rpcHealthService, type RpcEndpointHealth } from '@/services/rpcHealthService'
+import { bridgeFeeService } from '@/services/bridgeFeeService'
+import { SUPPORTED_CHAINS, getChainName } from '@/utils/chainUtils'
+import { ChainLogo } from './ChainLogo'
+import { AlertCircle, Loader } from './Icons'
+
+interface RpcSettingsPanelProps {
+  onClose?: () => void
+}
+
+const chainIds = Object.keys(SUPPORTED_CHAINS).map(Number)
+
+export function RpcSettingsPanel({ onClose }: RpcSettingsPanelProps) {
+  // Custom URLs being edited, one per line, keyed by chain ID
+  const [drafts, setDrafts] = useState<Record<number, string>>({})
+  const [health, setHealth] = useState<Record<string, RpcEndpointHealth>>({})
+  const [testingChainId, setTestingChainId] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Percentage added on top of quoted bridge fees
+  const [feeBuffer, setFeeBuffer] = useState('')
+
+  const refreshHealth = useCallback(() => {
+    const next: Record<string, RpcEndpointHealth> = {}
+    chainIds.forEach(chainId => {
+      rpcSettingsService.getRpcUrls(chainId).forEach(url => {
+        next[url] = rpcHealthService.getHealth(url)
+      })
+    })
+    setHealth(next)
+  }, [])
+
+  useEffect(() => {
+    const userUrls = rpcSettingsService.getUserRpcUrls()
+    const initialDrafts: Record<number, string> = {}
+    chainIds.forEach(chainId => {
+      initialDrafts[chainId] = (userUrls[chainId] ?? []).join('\n')
+    })
+    setDrafts(initialDrafts)
+    setFeeBuffer((bridgeFeeService.getFeeBufferBps() / 100).toString())
+
+    // Health is recorded by the transports as requests are made
+    refreshHealth()
+    const interval = setInterval(refreshHealth, 5000)
+
+    return () => clearInterval(interval)
+  }, [refreshHealth])
+
+  const parseDraft = (chainId: number) => {
+    return (drafts[chainId] ?? '').split('\n').map(url => url.trim()).filter(Boolean)
+  }
+
+  const handleTest = async (chainId: number) => {
+    setTestingChainId(chainId)
+    const urls = Array.from(new Set([...parseDraft(chainId), ...rpcSettingsService.getRpcUrls(chainId)]))
+      .filter(url => rpcSettingsService.isValidRpcUrl(url))
+    await Promise.all(urls.map(url => rpcHealthService.probe(url, chainId)))
+    refreshHealth()
+    setTestingChainId(null)
+  }
+
+  const handleSave = () => {
+    const invalid = chainIds.flatMap(chainId => parseDraft(chainId).filter(url => !rpcSettingsService.isValidRpcUrl(url)))
+    if (invalid.length > 0) {
+      setError(`Invalid RPC URL: ${invalid[0]}`)
+      return
+    }
+
+    const feeBufferBps = Math.round(parseFloat(feeBuffer) * 100)
+    if (!bridgeFeeService.isValidFeeBufferBps(feeBufferBps)) {
+      setError('Bridge fee buffer must be between 0% and 100%')
+      return
+    }
+    bridgeFeeService.saveFeeBufferBps(feeBufferBps)
+
+    const settings: Record<number, string[]> = {}
+    chainIds.forEach(chainId => {
+      settings[chainId] = parseDraft(chainId)
+    })
+    rpcSettingsService.saveUserRpcUrls(settings)
+
+    // Transports are created with the wagmi config, so reload to apply
+    window.location.reload()
+  }
+
+  const handleReset = () => {
+    rpcSettingsService.clearUserRpcUrls()
+    bridgeFeeService.clearFeeBufferBps()
+    window.location.reload()
+  }
+
+  const getScoreColor = (score: number | null) => {
+    if (score === null) return 'text-gray-500 dark:text-gray-400'
+    if (score >= 70) return 'text-green-600'
+    if (score >= 40) return 'text-yellow-600'
+    return 'text-red-600'
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">RPC Settings</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Custom endpoints are tried first, then environment and default endpoints.
+          </p>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg border border-red-200 dark:border-red-800">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {chainIds.map(chainId => (
+          <div key={chainId} className="border rounded-lg p-3 dark:border-gray-700">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-2">
+                <ChainLogo chainId={chainId} chainName={getChainName(chainId)} size="sm" />
+                <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">{getChainName(chainId)}</span>
+              </div>
+              <button
+                onClick={() => handleTest(chainId)}
+                disabled={testingChainId !== null}
+                className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400 disabled:opacity-50 flex items-center gap-1"
+              >
+                {testingChainId === chainId && <Loader className="w-3 h-3 animate-spin" />}
+                Test endpoints
+              </button>
+            </div>
+
+            <textarea
+              className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono text-xs"
+              rows={2}
+              value={drafts[chainId] ?? ''}
+              onChange={(e) => setDrafts({ ...drafts, [chainId]: e.target.value })}
+              placeholder="https://... (one per line)"
+            />
+
+            <div className="mt-2 space-y-1">
+              {rpcSettingsService.getRpcUrls(chainId).map(url => {
+                const endpointHealth = health[url]
+                return (
+                  <div key={url} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-mono truncate text-gray-600 dark:text-gray-400" title={endpointHealth?.lastError ?? url}>
+                      {url}
+                    </span>
+                    <span className={`flex-shrink-0 ${getScoreColor(endpointHealth?.score ?? null)}`}>
+                      {endpointHealth?.score == null
+                        ? 'No data'
+                        : `${endpointHealth.score} · ${endpointHealth.averageLatencyMs ?? '-'}ms · ${endpointHealth.failures}/${endpointHealth.requests} failed`}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mt-4 border rounded-lg p-3 dark:border-gray-700">
+        <div>
+          <div className="font-medium text-gray-900 dark:text-gray-100 text-sm">Bridge fee buffer</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Added to quoted bridge fees so a price change doesn&apos;t make the send revert</div>
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            className="w-20 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+            value={feeBuffer}
+            onChange={(e) => setFeeBuffer(e.target.value)}
+          />
+          <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={handleSave}
+          className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+        >
+          Save and reload
+        </button>
+        <button
+          onClick={handleReset}
+          className="py-2 px-4 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  )
+}
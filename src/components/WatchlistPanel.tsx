@@ -0,0 +1,223 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { isAddress, type Address } from 'viem'
+import { watchlistService, type Watchlist } from '@/services/watchlistService'
+import { beneficiaryService } from '@/services/beneficiaryService'
+import { jbTokensService } from '@/services/jbTokensService'
+import { bridgeStateService } from '@/services/bridgeStateService'
+import { SUPPORTED_CHAINS, getChainName } from '@/utils/chainUtils'
+import { AlertCircle, CheckCircle, Loader } from './Icons'
+
+interface WatchlistPanelProps {
+  onSynced?: (count: number) => void
+  onClose?: () => void
+}
+
+export function WatchlistPanel({ onSynced, onClose }: WatchlistPanelProps) {
+  const [watchlist, setWatchlist] = useState<Watchlist>({ addresses: [], projects: [] })
+  const [addressInput, setAddressInput] = useState('')
+  const [labelInput, setLabelInput] = useState('')
+  const [projectChainId, setProjectChainId] = useState(Number(Object.keys(SUPPORTED_CHAINS)[0]))
+  const [tokenAddress, setTokenAddress] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [result, setResult] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = () => setWatchlist(watchlistService.getWatchlist())
+    load()
+
+    window.addEventListener('watchlist-updated', load)
+    return () => window.removeEventListener('watchlist-updated', load)
+  }, [])
+
+  const handleAddAddress = async () => {
+    setIsWorking(true)
+    setResult(null)
+    setError(null)
+
+    try {
+      const resolved = await beneficiaryService.resolveBeneficiary(addressInput)
+      watchlistService.addAddress(resolved.address, labelInput || resolved.ensName)
+      setAddressInput('')
+      setLabelInput('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add address')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleAddProject = async () => {
+    if (!isAddress(tokenAddress)) {
+      setError('Enter a valid project token address')
+      return
+    }
+
+    setIsWorking(true)
+    setResult(null)
+    setError(null)
+
+    try {
+      const projectId = await jbTokensService.getProjectIdForToken(projectChainId, tokenAddress as Address)
+      if (!projectId) {
+        throw new Error(`Token is not a Juicebox project token on ${getChainName(projectChainId)}`)
+      }
+      watchlistService.addProject(projectChainId, projectId)
+      setTokenAddress('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add project')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleScan = async () => {
+    setIsWorking(true)
+    setResult(null)
+    setError(null)
+
+    try {
+      const count = await bridgeStateService.syncWatchlist(true)
+      setResult(`Found ${count} new bridge transaction${count !== 1 ? 's' : ''}`)
+      onSynced?.(count)
+    } catch (err) {
+      console.error('Failed to scan watched addresses:', err)
+      setError(err instanceof Error ? err.message : 'Failed to scan watched addresses')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const inputClasses = 'p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm'
+
+  return (
+    <div className="border rounded-lg p-4 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-900 dark:text-gray-100">Watch list</h3>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+        Track bridges to these addresses across the watched projects without connecting their wallets. Watched projects are rescanned every few minutes.
+      </p>
+
+      <div className="space-y-2 mb-4">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Addresses</h4>
+        {watchlist.addresses.map(watched => (
+          <div key={watched.address} className="flex items-center justify-between gap-2 text-sm">
+            <div className="min-w-0">
+              {watched.label && <span className="text-gray-900 dark:text-gray-100 mr-2">{watched.label}</span>}
+              <span className="font-mono text-gray-500 dark:text-gray-400 break-all">{watched.address}</span>
+            </div>
+            <button
+              onClick={() => watchlistService.removeAddress(watched.address)}
+              className="text-xs text-red-600 hover:text-red-700 dark:text-red-400 flex-shrink-0"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className={`flex-1 font-mono ${inputClasses}`}
+            value={addressInput}
+            onChange={(e) => setAddressInput(e.target.value)}
+            placeholder="0x... or name.eth"
+            disabled={isWorking}
+          />
+          <input
+            type="text"
+            className={`w-32 ${inputClasses}`}
+            value={labelInput}
+            onChange={(e) => setLabelInput(e.target.value)}
+            placeholder="Label"
+            disabled={isWorking}
+          />
+          <button
+            onClick={handleAddAddress}
+            disabled={isWorking || !addressInput.trim()}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Projects</h4>
+        {watchlist.projects.map(project => (
+          <div key={`${project.chainId}-${project.projectId}`} className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-gray-900 dark:text-gray-100">
+              Project #{project.projectId} on {getChainName(project.chainId)}
+            </span>
+            <button
+              onClick={() => watchlistService.removeProject(project.chainId, project.projectId)}
+              className="text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <select
+            className={inputClasses}
+            value={projectChainId}
+            onChange={(e) => setProjectChainId(Number(e.target.value))}
+            disabled={isWorking}
+          >
+            {Object.keys(SUPPORTED_CHAINS).map(chainId => (
+              <option key={chainId} value={chainId}>{getChainName(Number(chainId))}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className={`flex-1 font-mono ${inputClasses}`}
+            value={tokenAddress}
+            onChange={(e) => setTokenAddress(e.target.value.trim())}
+            placeholder="Project token address"
+            disabled={isWorking}
+          />
+          <button
+            onClick={handleAddProject}
+            disabled={isWorking || !tokenAddress}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={handleScan}
+        disabled={isWorking || watchlist.addresses.length === 0 || watchlist.projects.length === 0}
+        className="w-full py-2 px-4 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {isWorking && <Loader className="w-4 h-4 animate-spin" />}
+        Scan now
+      </button>
+
+      {result && (
+        <div className="flex items-center gap-2 mt-3 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{result}</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 mt-3 text-sm text-red-700 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  )
+}
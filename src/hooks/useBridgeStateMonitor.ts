@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { bridgeStateService, type BridgeStateInfo } from '@/services/bridgeStateService'
 import { bridgeStorageService } from '@/services/bridgeStorageService'
+import { bridgeEventService } from '@/services/bridgeEventService'
 
 interface UseBridgeStateMonitorOptions {
   intervalMs?: number // Default 30 seconds
@@ -26,41 +27,54 @@ export function useBridgeStateMonitor(
   const [lastCheckTime, setLastCheckTime] = useState<Date | null>(null)
   const [error, setError] = useState<string | null>(null)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  // Refs rather than state, so every caller sees the in-flight check however stale its closure is
+  const inFlightRef = useRef(false)
+  const recheckRef = useRef(false)
 
   const checkStates = useCallback(async () => {
-    if (isChecking) {
-      return // Prevent concurrent checks
+    if (inFlightRef.current) {
+      // Prevent concurrent checks, but don't drop a trigger that arrived mid-check
+      recheckRef.current = true
+      return
     }
     
+    inFlightRef.current = true
     setIsChecking(true)
-    setError(null)
     
     try {
-      let results: BridgeStateInfo[]
-      
-      if (chainId) {
-        results = await bridgeStateService.checkTransactionStatesForChain(chainId)
-      } else {
-        results = await bridgeStateService.checkAllTransactionStates()
-      }
-      
-      setStateInfos(results)
-      setLastCheckTime(new Date())
-      
-      // Only log status changes to reduce noise
-      const statusChanges = results.filter(info => info.statusChanged)
-      if (statusChanges.length > 0) {
-        console.log('Bridge state changes detected:', statusChanges)
-      }
-      
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to check bridge states'
-      setError(errorMessage)
-      console.error('Bridge state check failed:', err)
+      do {
+        recheckRef.current = false
+        setError(null)
+
+        try {
+          let results: BridgeStateInfo[]
+          
+          if (chainId) {
+            results = await bridgeStateService.checkTransactionStatesForChain(chainId)
+          } else {
+            results = await bridgeStateService.checkAllTransactionStates()
+          }
+          
+          setStateInfos(results)
+          setLastCheckTime(new Date())
+          
+          // Only log status changes to reduce noise
+          const statusChanges = results.filter(info => info.statusChanged)
+          if (statusChanges.length > 0) {
+            console.log('Bridge state changes detected:', statusChanges)
+          }
+          
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to check bridge states'
+          setError(errorMessage)
+          console.error('Bridge state check failed:', err)
+        }
+      } while (recheckRef.current)
     } finally {
+      inFlightRef.current = false
       setIsChecking(false)
     }
-  }, [chainId]) // Removed isChecking from dependencies to prevent recreation
+  }, [chainId])
 
   // Initial check and periodic polling
   useEffect(() => {
@@ -91,9 +105,9 @@ export function useBridgeStateMonitor(
 
     let timeoutId: NodeJS.Timeout | null = null
 
-    const handleStorageChange = (e: StorageEvent) => {
+    const handleStorageChange = (e: Event) => {
       // Only respond to our bridge transactions storage changes
-      if (e.key !== 'juicerkle-bridge-transactions') return
+      if (e instanceof StorageEvent && e.key !== 'juicerkle-bridge-transactions') return
       
       // Clear existing timeout
       if (timeoutId) clearTimeout(timeoutId)
@@ -104,15 +118,37 @@ export function useBridgeStateMonitor(
       }, 2000)
     }
 
-    // Listen for localStorage changes (new transactions added)
+    // Listen for localStorage changes (fallback storage) and IndexedDB changes from other tabs
     window.addEventListener('storage', handleStorageChange)
+    window.addEventListener('bridge-transactions-synced', handleStorageChange)
 
     return () => {
       window.removeEventListener('storage', handleStorageChange)
+      window.removeEventListener('bridge-transactions-synced', handleStorageChange)
       if (timeoutId) clearTimeout(timeoutId)
     }
   }, [enabled]) // Removed checkStates from dependencies
 
+  // Re-check as soon as a watched sucker emits an event; the polling above stays as the fallback
+  useEffect(() => {
+    if (!enabled) return
+
+    let timeoutId: NodeJS.Timeout | null = null
+
+    const unsubscribe = bridgeEventService.subscribe(() => {
+      // A send or claim can emit several events at once, check after the last one
+      if (timeoutId) clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => {
+        checkStates()
+      }, 1000)
+    })
+
+    return () => {
+      unsubscribe()
+      if (timeoutId) clearTimeout(timeoutId)
+    }
+  }, [enabled, checkStates])
+
   return {
     stateInfos,
     isChecking,
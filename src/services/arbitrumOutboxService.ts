@@ -0,0 +1,335 @@
+import { type Address, type Hash, type Hex, decodeEventLog } from 'viem'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+import { LOG_CHUNK_SIZE, MAX_LOG_CHUNKS } from '@/utils/logUtils'
+import { bridgeStorageService, type StoredBridgeTransaction } from './bridgeStorageService'
+import { suckerService } from './suckerService'
+
+// Arbitrum precompiles on L2
+const ARB_SYS_ADDRESS = '0x0000000000000000000000000000000000000064' as Address
+const NODE_INTERFACE_ADDRESS = '0x00000000000000000000000000000000000000C8' as Address
+
+const L2_TO_L1_TX_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, name: 'caller', type: 'address' },
+      { indexed: true, name: 'destination', type: 'address' },
+      { indexed: true, name: 'hash', type: 'uint256' },
+      { indexed: true, name: 'position', type: 'uint256' },
+      { indexed: false, name: 'arbBlockNum', type: 'uint256' },
+      { indexed: false, name: 'ethBlockNum', type: 'uint256' },
+      { indexed: false, name: 'timestamp', type: 'uint256' },
+      { indexed: false, name: 'callvalue', type: 'uint256' },
+      { indexed: false, name: 'data', type: 'bytes' }
+    ],
+    name: 'L2ToL1Tx',
+    type: 'event'
+  }
+] as const
+
+const SEND_ROOT_UPDATED_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'outputRoot', type: 'bytes32' },
+      { indexed: true, name: 'l2BlockHash', type: 'bytes32' }
+    ],
+    name: 'SendRootUpdated',
+    type: 'event'
+  }
+] as const
+
+const NODE_INTERFACE_ABI = [
+  {
+    name: 'constructOutboxProof',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'size', type: 'uint64' },
+      { name: 'leaf', type: 'uint64' }
+    ],
+    outputs: [
+      { name: 'send', type: 'bytes32' },
+      { name: 'root', type: 'bytes32' },
+      { name: 'proof', type: 'bytes32[]' }
+    ]
+  }
+] as const
+
+// Just enough of the L1 contracts to get from the sucker's inbox to the rollup's outbox
+const OUTBOX_DISCOVERY_ABI = [
+  { name: 'ARBINBOX', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  { name: 'bridge', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  { name: 'rollup', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  { name: 'outbox', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] }
+] as const
+
+const OUTBOX_ABI = [
+  {
+    name: 'isSpent',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'index', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bool' }]
+  },
+  {
+    name: 'executeTransaction',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'proof', type: 'bytes32[]' },
+      { name: 'index', type: 'uint256' },
+      { name: 'l2Sender', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'l2Block', type: 'uint256' },
+      { name: 'l1Block', type: 'uint256' },
+      { name: 'l2Timestamp', type: 'uint256' },
+      { name: 'value', type: 'uint256' },
+      { name: 'data', type: 'bytes' }
+    ],
+    outputs: []
+  }
+] as const
+
+export interface ArbitrumOutboxMessage {
+  toRemoteTransactionHash: Hash
+  position: bigint // Index of the message in the L2 send merkle tree
+  caller: Address
+  destination: Address
+  arbBlockNum: bigint
+  ethBlockNum: bigint
+  timestamp: bigint
+  callvalue: bigint
+  data: Hex
+}
+
+// unconfirmed: still in the challenge period; confirmed: executable on L1; executed: already delivered
+export type ArbitrumOutboxMessageStatus = 'unconfirmed' | 'confirmed' | 'executed'
+
+const STATUS_ORDER: ArbitrumOutboxMessageStatus[] = ['unconfirmed', 'confirmed', 'executed']
+
+export interface ArbitrumOutboxMessageState {
+  messages: ArbitrumOutboxMessage[]
+  statuses: ArbitrumOutboxMessageStatus[] // Per message, in the same order
+  outbox: Address
+  status: ArbitrumOutboxMessageStatus // The slowest message's status
+  confirmedSendCount: bigint | null
+}
+
+/**
+ * Arbitrum blocks carry the L2 send count of their send root, which viem passes through untyped
+ */
+function hasSendCount(block: object): block is { sendCount: Hex } {
+  return 'sendCount' in block && typeof block.sendCount === 'string'
+}
+
+class ArbitrumOutboxService {
+  private messageCache = new Map<string, ArbitrumOutboxMessage[]>()
+  private outboxCache = new Map<string, Address>()
+  private sendCountCache = new Map<string, { sendCount: bigint, timestamp: number }>()
+
+  private readonly SEND_COUNT_TTL = 60000 // Rollup assertions are confirmed at most every few minutes
+
+  /**
+   * Find the L2-to-L1 messages ArbSys emitted for the toRemote() call carrying this transaction.
+   * An ERC-20 root sends two: the token gateway's withdrawal and the sucker's own message.
+   */
+  async getOutboxMessages(transaction: StoredBridgeTransaction): Promise<ArbitrumOutboxMessage[] | null> {
+    const cached = this.messageCache.get(transaction.id)
+    if (cached) {
+      return cached
+    }
+
+    const receipt = await suckerService.getToRemoteReceipt(transaction)
+    if (!receipt) {
+      return null
+    }
+    const toRemoteTransactionHash = receipt.transactionHash
+    if (!transaction.toRemoteTransactionHash) {
+      bridgeStorageService.updateTransactionToRemoteHash(transaction.id, toRemoteTransactionHash)
+    }
+
+    const messages: ArbitrumOutboxMessage[] = []
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== ARB_SYS_ADDRESS.toLowerCase()) {
+        continue
+      }
+
+      try {
+        const decoded = decodeEventLog({
+          abi: L2_TO_L1_TX_EVENT_ABI,
+          data: log.data,
+          topics: log.topics
+        })
+
+        messages.push({
+          toRemoteTransactionHash,
+          position: decoded.args.position,
+          caller: decoded.args.caller,
+          destination: decoded.args.destination,
+          arbBlockNum: decoded.args.arbBlockNum,
+          ethBlockNum: decoded.args.ethBlockNum,
+          timestamp: decoded.args.timestamp,
+          callvalue: decoded.args.callvalue,
+          data: decoded.args.data
+        })
+      } catch {
+        // Not an L2ToL1Tx log
+        continue
+      }
+    }
+
+    // The sucker's own message to its peer is what leads to the outbox
+    if (!messages.some(message => message.caller.toLowerCase() === transaction.suckerAddress.toLowerCase())) {
+      console.warn(`No L2ToL1Tx log from sucker ${transaction.suckerAddress} in ${toRemoteTransactionHash}`)
+      return null
+    }
+
+    this.messageCache.set(transaction.id, messages)
+    return messages
+  }
+
+  /**
+   * Get the rollup's outbox on L1 through the peer sucker's inbox
+   */
+  private async getOutboxAddress(l1ChainId: number, l1SuckerAddress: Address): Promise<Address> {
+    const cacheKey = `${l1ChainId}-${l1SuckerAddress.toLowerCase()}`
+    const cached = this.outboxCache.get(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    const client = getSharedPublicClient(l1ChainId)
+    const inbox = await client.readContract({ address: l1SuckerAddress, abi: OUTBOX_DISCOVERY_ABI, functionName: 'ARBINBOX' })
+    const bridge = await client.readContract({ address: inbox, abi: OUTBOX_DISCOVERY_ABI, functionName: 'bridge' })
+    const rollup = await client.readContract({ address: bridge, abi: OUTBOX_DISCOVERY_ABI, functionName: 'rollup' })
+    const outbox = await client.readContract({ address: rollup, abi: OUTBOX_DISCOVERY_ABI, functionName: 'outbox' })
+
+    this.outboxCache.set(cacheKey, outbox)
+    return outbox
+  }
+
+  /**
+   * Get the L2 send count covered by the latest root the rollup confirmed into the outbox
+   */
+  private async getConfirmedSendCount(l1ChainId: number, l2ChainId: number, outbox: Address, sinceBlock: bigint): Promise<bigint | null> {
+    const cacheKey = `${l1ChainId}-${outbox.toLowerCase()}`
+    const cached = this.sendCountCache.get(cacheKey)
+    if (cached && Date.now() - cached.timestamp < this.SEND_COUNT_TTL) {
+      return cached.sendCount
+    }
+
+    const l1Client = getSharedPublicClient(l1ChainId)
+    const latestBlock = await l1Client.getBlockNumber()
+
+    // Walk back from the head; confirmations are frequent so the first chunk normally has one
+    for (let chunk = 0, toBlock = latestBlock; chunk < MAX_LOG_CHUNKS && toBlock >= sinceBlock; chunk++) {
+      const fromBlock = toBlock - sinceBlock >= LOG_CHUNK_SIZE ? toBlock - LOG_CHUNK_SIZE + BigInt(1) : sinceBlock
+
+      const logs = await l1Client.getLogs({
+        address: outbox,
+        event: SEND_ROOT_UPDATED_EVENT_ABI[0],
+        fromBlock,
+        toBlock
+      })
+
+      const latest = logs[logs.length - 1]
+      if (latest) {
+        const l2Block = await getSharedPublicClient(l2ChainId).getBlock({ blockHash: latest.args.l2BlockHash! })
+        if (!hasSendCount(l2Block)) {
+          throw new Error(`L2 block ${latest.args.l2BlockHash} has no sendCount`)
+        }
+
+        const result = BigInt(l2Block.sendCount)
+        this.sendCountCache.set(cacheKey, { sendCount: result, timestamp: Date.now() })
+        return result
+      }
+
+      toBlock = fromBlock - BigInt(1)
+    }
+
+    // Nothing confirmed since the message was sent
+    return null
+  }
+
+  /**
+   * Report whether a transaction's L2-to-L1 messages are still in the challenge period, executable, or executed.
+   * With several messages the transaction is only as far along as the slowest one.
+   */
+  async getMessageState(transaction: StoredBridgeTransaction): Promise<ArbitrumOutboxMessageState | null> {
+    const messages = await this.getOutboxMessages(transaction)
+    if (!messages) {
+      return null
+    }
+
+    const suckerMessage = messages.find(message => message.caller.toLowerCase() === transaction.suckerAddress.toLowerCase())!
+    const l1Client = getSharedPublicClient(transaction.targetChainId)
+    const outbox = await this.getOutboxAddress(transaction.targetChainId, suckerMessage.destination)
+
+    const spent = await Promise.all(messages.map(message => l1Client.readContract({
+      address: outbox,
+      abi: OUTBOX_ABI,
+      functionName: 'isSpent',
+      args: [message.position]
+    })))
+
+    // Messages from one transaction are sent together, so one confirmed send count covers them all
+    const confirmedSendCount = spent.every(Boolean) ? null : await this.getConfirmedSendCount(
+      transaction.targetChainId,
+      transaction.sourceChainId,
+      outbox,
+      suckerMessage.ethBlockNum
+    )
+
+    const statuses = messages.map((message, i): ArbitrumOutboxMessageStatus => {
+      if (spent[i]) {
+        return 'executed'
+      }
+      return confirmedSendCount !== null && confirmedSendCount > message.position ? 'confirmed' : 'unconfirmed'
+    })
+    const status = statuses.reduce((slowest, current) =>
+      STATUS_ORDER.indexOf(current) < STATUS_ORDER.indexOf(slowest) ? current : slowest
+    )
+
+    return { messages, statuses, outbox, status, confirmedSendCount }
+  }
+
+  /**
+   * Build the Outbox.executeTransaction() call for the next confirmed message, with its proof from the L2 NodeInterface.
+   * Call again after it confirms if the transaction has more than one message.
+   */
+  async getExecuteTransactionData(transaction: StoredBridgeTransaction) {
+    const state = await this.getMessageState(transaction)
+    const index = state?.statuses.indexOf('confirmed') ?? -1
+    if (!state || index === -1 || state.confirmedSendCount === null) {
+      throw new Error(`No message for transaction ${transaction.id} is ready to execute (${state?.status ?? 'not found'})`)
+    }
+
+    const message = state.messages[index]
+    const [, , proof] = await getSharedPublicClient(transaction.sourceChainId).readContract({
+      address: NODE_INTERFACE_ADDRESS,
+      abi: NODE_INTERFACE_ABI,
+      functionName: 'constructOutboxProof',
+      args: [state.confirmedSendCount, message.position]
+    })
+
+    return {
+      address: state.outbox,
+      abi: OUTBOX_ABI,
+      functionName: 'executeTransaction' as const,
+      args: [
+        proof,
+        message.position,
+        message.caller,
+        message.destination,
+        message.arbBlockNum,
+        message.ethBlockNum,
+        message.timestamp,
+        message.callvalue,
+        message.data
+      ] as const
+    }
+  }
+}
+
+export const arbitrumOutboxService = new ArbitrumOutboxService()
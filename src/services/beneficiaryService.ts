@@ -0,0 +1,68 @@
+import { type Address, getAddress, isAddress } from 'viem'
+import { normalize } from 'viem/ens'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+
+const ENS_CHAIN_ID = 1
+
+export interface ResolvedBeneficiary {
+  address: Address
+  ensName?: string
+}
+
+export interface RecipientCode {
+  isContractOnSource: boolean
+  isContractOnTarget: boolean
+}
+
+class BeneficiaryService {
+  /**
+   * Resolve a beneficiary entered as an address or ENS name.
+   * Mixed-case addresses must carry a valid checksum; all-lowercase or all-uppercase ones are accepted.
+   */
+  async resolveBeneficiary(input: string): Promise<ResolvedBeneficiary> {
+    const value = input.trim()
+
+    if (value.includes('.')) {
+      let name: string
+      try {
+        name = normalize(value)
+      } catch {
+        throw new Error(`${value} is not a valid ENS name`)
+      }
+
+      const client = getSharedPublicClient(ENS_CHAIN_ID)
+      const address = await client.getEnsAddress({ name })
+      if (!address) {
+        throw new Error(`${name} does not resolve to an address`)
+      }
+      return { address: getAddress(address), ensName: name }
+    }
+
+    if (!isAddress(value, { strict: false })) {
+      throw new Error('Not a valid address')
+    }
+    if (!isAddress(value, { strict: true })) {
+      throw new Error('Address checksum is invalid, check for a typo')
+    }
+
+    return { address: getAddress(value) }
+  }
+
+  /**
+   * Check whether the recipient has code on each side. A contract (e.g. a Safe) that only exists on the
+   * source chain can't use the tokens claimed to it on the target chain.
+   */
+  async getRecipientCode(address: Address, sourceChainId: number, targetChainId: number): Promise<RecipientCode> {
+    const [sourceCode, targetCode] = await Promise.all([
+      getSharedPublicClient(sourceChainId).getCode({ address }),
+      getSharedPublicClient(targetChainId).getCode({ address })
+    ])
+
+    return {
+      isContractOnSource: !!sourceCode && sourceCode !== '0x',
+      isContractOnTarget: !!targetCode && targetCode !== '0x'
+    }
+  }
+}
+
+export const beneficiaryService = new BeneficiaryService()
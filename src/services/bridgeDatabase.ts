@@ -0,0 +1,183 @@
+import { type StoredBridgeTransaction } from './bridgeStorageService'
+
+const DB_NAME = 'juicerkle'
+const TRANSACTIONS_STORE = 'transactions'
+
+// Key of the single JSON blob transactions were kept in before IndexedDB
+export const LEGACY_STORAGE_KEY = 'juicerkle-bridge-transactions'
+// Where an unreadable legacy blob is moved so it isn't lost
+const LEGACY_BACKUP_KEY = 'juicerkle-bridge-transactions-backup'
+
+// Stored records carry lowercased address keys so lookups don't depend on checksum casing
+interface TransactionRecord extends StoredBridgeTransaction {
+  suckerKey: string
+  beneficiaryKey: string
+}
+
+export type TransactionIndex = 'status' | 'sourceChainId' | 'targetChainId' | 'suckerKey' | 'beneficiaryKey' | 'transactionHash'
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void
+
+/**
+ * Schema migrations. MIGRATIONS[n] upgrades the database from version n to n + 1,
+ * so a new schema change is added by appending a migration.
+ */
+const MIGRATIONS: Migration[] = [
+  // v1: transactions store with query indexes, seeded from the legacy localStorage blob
+  (db) => {
+    const store = db.createObjectStore(TRANSACTIONS_STORE, { keyPath: 'id' })
+    store.createIndex('status', 'status')
+    store.createIndex('sourceChainId', 'sourceChainId')
+    store.createIndex('targetChainId', 'targetChainId')
+    store.createIndex('suckerKey', 'suckerKey')
+    store.createIndex('beneficiaryKey', 'beneficiaryKey')
+    store.createIndex('transactionHash', 'transactionHash')
+
+    importLegacyTransactions(store)
+  },
+]
+
+const DB_VERSION = MIGRATIONS.length
+
+let databasePromise: Promise<IDBDatabase> | null = null
+let importedLegacyTransactions = false
+
+function toRecord(transaction: StoredBridgeTransaction): TransactionRecord {
+  return {
+    ...transaction,
+    suckerKey: transaction.suckerAddress.toLowerCase(),
+    beneficiaryKey: transaction.beneficiary.toLowerCase()
+  }
+}
+
+function fromRecord(record: TransactionRecord): StoredBridgeTransaction {
+  const transaction: Partial<TransactionRecord> = { ...record }
+  delete transaction.suckerKey
+  delete transaction.beneficiaryKey
+  return transaction as StoredBridgeTransaction
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Copy transactions from the legacy localStorage blob into the new store (runs inside the upgrade)
+ */
+function importLegacyTransactions(store: IDBObjectStore): void {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (!raw) {
+    return
+  }
+
+  try {
+    const parsed = JSON.parse(raw)
+    if (!Array.isArray(parsed)) {
+      throw new Error('Legacy transactions are not an array')
+    }
+
+    const valid = parsed.filter((tx): tx is StoredBridgeTransaction =>
+      tx && typeof tx.id === 'string' && typeof tx.suckerAddress === 'string' && typeof tx.beneficiary === 'string'
+    )
+    valid.forEach(tx => store.put(toRecord(tx)))
+
+    console.log(`Migrating ${valid.length} of ${parsed.length} bridge transactions from localStorage to IndexedDB`)
+  } catch (error) {
+    console.error('Legacy bridge transactions are corrupt, moving them to a backup key:', error)
+    localStorage.setItem(LEGACY_BACKUP_KEY, raw)
+  }
+
+  importedLegacyTransactions = true
+}
+
+/**
+ * Open (and upgrade if needed) the bridge database
+ */
+export function openBridgeDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) {
+    return databasePromise
+  }
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const transaction = request.transaction!
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        console.log(`Upgrading bridge database from version ${version} to ${version + 1}`)
+        MIGRATIONS[version](db, transaction)
+      }
+    }
+
+    request.onsuccess = () => {
+      // Only drop the legacy blob once the upgrade that imported it has committed
+      if (importedLegacyTransactions) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY)
+        importedLegacyTransactions = false
+      }
+      resolve(request.result)
+    }
+
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => console.warn('Bridge database upgrade blocked by another open tab')
+  }).catch(error => {
+    databasePromise = null
+    throw error
+  })
+
+  return databasePromise
+}
+
+export async function getAllTransactionRecords(): Promise<StoredBridgeTransaction[]> {
+  const db = await openBridgeDatabase()
+  const store = db.transaction(TRANSACTIONS_STORE, 'readonly').objectStore(TRANSACTIONS_STORE)
+  const records = await requestToPromise(store.getAll() as IDBRequest<TransactionRecord[]>)
+  return records.map(fromRecord)
+}
+
+export async function getTransactionRecordsByIndex(index: TransactionIndex, value: IDBValidKey): Promise<StoredBridgeTransaction[]> {
+  const db = await openBridgeDatabase()
+  const store = db.transaction(TRANSACTIONS_STORE, 'readonly').objectStore(TRANSACTIONS_STORE)
+  const records = await requestToPromise(store.index(index).getAll(value) as IDBRequest<TransactionRecord[]>)
+  return records.map(fromRecord)
+}
+
+export async function putTransactionRecords(transactions: StoredBridgeTransaction[]): Promise<void> {
+  const db = await openBridgeDatabase()
+  const transaction = db.transaction(TRANSACTIONS_STORE, 'readwrite')
+  const store = transaction.objectStore(TRANSACTIONS_STORE)
+  transactions.forEach(tx => store.put(toRecord(tx)))
+  await transactionToPromise(transaction)
+}
+
+export async function deleteTransactionRecords(ids: string[]): Promise<void> {
+  const db = await openBridgeDatabase()
+  const transaction = db.transaction(TRANSACTIONS_STORE, 'readwrite')
+  const store = transaction.objectStore(TRANSACTIONS_STORE)
+  ids.forEach(id => store.delete(id))
+  await transactionToPromise(transaction)
+}
+
+export async function clearTransactionRecords(): Promise<void> {
+  const db = await openBridgeDatabase()
+  const transaction = db.transaction(TRANSACTIONS_STORE, 'readwrite')
+  transaction.objectStore(TRANSACTIONS_STORE).clear()
+  await transactionToPromise(transaction)
+}
@@ -1,6 +1,7 @@
 import { type Address } from 'viem'
 import { getSharedPublicClient } from '@/utils/clientUtils'
-import { type BridgeType, type BridgeInfo, type SuckerBridgeInfo, type BridgeDirectionConfig } from '@/types/bridge'
+import { type BridgeType, type BridgeInfo, type SuckerBridgeInfo, type BridgeDirectionConfig, type BridgeDirection } from '@/types/bridge'
+import { type StoredBridgeTransaction } from './bridgeStorageService'
 
 // ABI for checking if a sucker was deployed by a specific deployer
 const DEPLOYER_ABI = [
@@ -39,13 +40,13 @@ const BRIDGE_CONFIGS: Record<BridgeType, BridgeInfo> = {
         displayName: 'Arbitrum Canonical Bridge',
         description: 'Official Arbitrum bridge for secure cross-chain transfers',
         l1ToL2: {
-            requiresPayment: false,
+            requiresPayment: true, // toRemote() funds the L2 retryable ticket
             hasAdditionalSteps: false,
-            estimatedTimeMinutes: 10
+            estimatedTimeMinutes: 15
         },
         l2ToL1: {
-            requiresPayment: true, // L2 -> L1 requires payment for finalization
-            hasAdditionalSteps: true, // 7-day challenge period
+            requiresPayment: false, // ArbSys messages are free to send, toRemote() reverts on msg.value
+            hasAdditionalSteps: true, // 7-day challenge period, then executed through the L1 outbox
             estimatedTimeMinutes: 10080 // ~7 days
         },
         l2ToL2: {
@@ -59,13 +60,13 @@ const BRIDGE_CONFIGS: Record<BridgeType, BridgeInfo> = {
         displayName: 'Optimism Canonical Bridge',
         description: 'Official Optimism bridge for secure cross-chain transfers',
         l1ToL2: {
-            requiresPayment: false,
+            requiresPayment: false, // The OP messenger isn't paid, toRemote() reverts on msg.value
             hasAdditionalSteps: false,
             estimatedTimeMinutes: 5
         },
         l2ToL1: {
-            requiresPayment: false, // L2 -> L1 requires payment for finalization
-            hasAdditionalSteps: true, // 7-day challenge period
+            requiresPayment: false,
+            hasAdditionalSteps: true, // Withdrawal is proven, then finalized after the 7-day challenge period
             estimatedTimeMinutes: 10080 // ~7 days
         },
         l2ToL2: {
@@ -78,19 +79,20 @@ const BRIDGE_CONFIGS: Record<BridgeType, BridgeInfo> = {
         type: 'CCIP',
         displayName: 'Chainlink CCIP',
         description: 'Chainlink Cross-Chain Interoperability Protocol',
+        // CCIP executes messages on the destination by itself
         l1ToL2: {
             requiresPayment: true,
-            hasAdditionalSteps: true,
+            hasAdditionalSteps: false,
             estimatedTimeMinutes: 20
         },
         l2ToL1: {
             requiresPayment: true,
-            hasAdditionalSteps: true,
+            hasAdditionalSteps: false,
             estimatedTimeMinutes: 25
         },
         l2ToL2: {
             requiresPayment: true,
-            hasAdditionalSteps: true,
+            hasAdditionalSteps: false,
             estimatedTimeMinutes: 30
         }
     },
@@ -121,39 +123,40 @@ class BridgeDetectionService {
     private bridgeCache = new Map<string, SuckerBridgeInfo>()
 
     /**
-     * Get the bridge type for a given sucker by checking each deployer's isSucker mapping
+     * Get the bridge types for suckers on one chain by checking every deployer's isSucker mapping in a single multicall
      */
-    private async getSuckerBridgeType(chainId: number, suckerAddress: Address): Promise<BridgeType> {
+    private async getSuckerBridgeTypes(chainId: number, suckerAddresses: Address[]): Promise<BridgeType[]> {
         const client = getSharedPublicClient(chainId)
-
-        // Check each known deployer to see if it deployed this sucker
-        for (const [deployerAddress, bridgeType] of Object.entries(DEPLOYER_TO_BRIDGE_TYPE)) {
-            try {
-                const isSucker = await client.readContract({
-                    address: deployerAddress as Address,
-                    abi: DEPLOYER_ABI,
-                    functionName: 'isSucker',
-                    args: [suckerAddress],
-                }) as boolean;
-
-                if (isSucker) {
-                    return bridgeType as BridgeType;
+        const deployers = Object.entries(DEPLOYER_TO_BRIDGE_TYPE)
+
+        // One isSucker call per (sucker, deployer); deployers that don't exist on this chain just fail
+        const results = await client.multicall({
+            contracts: suckerAddresses.flatMap(suckerAddress => deployers.map(([deployerAddress]) => ({
+                address: deployerAddress as Address,
+                abi: DEPLOYER_ABI,
+                functionName: 'isSucker' as const,
+                args: [suckerAddress] as const,
+            })))
+        })
+
+        return suckerAddresses.map((suckerAddress, suckerIndex) => {
+            for (let deployerIndex = 0; deployerIndex < deployers.length; deployerIndex++) {
+                const result = results[suckerIndex * deployers.length + deployerIndex]
+                if (result.status === 'success' && result.result) {
+                    return deployers[deployerIndex][1]
                 }
-            } catch (error) {
-                // Contract might not exist on this chain or function might revert
-                // Continue checking other deployers
-                console.debug(`Deployer ${deployerAddress} check failed for sucker ${suckerAddress} on chain ${chainId}:`, error);
             }
-        }
 
-        // No deployer claimed this sucker
-        return 'unknown';
+            // No deployer claimed this sucker
+            console.debug(`No known deployer claimed sucker ${suckerAddress} on chain ${chainId}`)
+            return 'unknown'
+        })
     }
 
     /**
      * Determine bridge direction based on source and target chain IDs
      */
-    private getBridgeDirection(sourceChainId: number, targetChainId: number): 'l1ToL2' | 'l2ToL1' | 'l2ToL2' {
+    getBridgeDirection(sourceChainId: number, targetChainId: number): BridgeDirection {
         const L1_CHAINS = [1, 11155111] // Ethereum mainnet and Sepolia
         const L2_CHAINS = [10, 8453, 42161, 11155420, 84532, 421614] // Optimism, Base, Arbitrum + testnets
 
@@ -183,6 +186,23 @@ class BridgeDetectionService {
         return bridgeInfo[direction]
     }
 
+    /**
+     * Get the direction configuration for a stored transaction from its recorded bridge info
+     */
+    getDirectionConfigForTransaction(transaction: Pick<StoredBridgeTransaction, 'bridgeInfo' | 'sourceChainId' | 'targetChainId'>): {
+        bridgeType: BridgeType
+        direction: BridgeDirection
+        directionConfig: BridgeDirectionConfig
+    } {
+        const bridgeType = transaction.bridgeInfo?.bridgeInfo.type ?? 'unknown'
+        const direction = this.getBridgeDirection(transaction.sourceChainId, transaction.targetChainId)
+        return {
+            bridgeType,
+            direction,
+            directionConfig: this.getBridgeInfo(bridgeType)[direction]
+        }
+    }
+
     /**
      * Get bridge information for a specific bridge type
      */
@@ -203,7 +223,7 @@ class BridgeDetectionService {
 
         try {
             // Determine bridge type by checking deployer contracts
-            const bridgeType = await this.getSuckerBridgeType(chainId, suckerAddress)
+            const [bridgeType] = await this.getSuckerBridgeTypes(chainId, [suckerAddress])
 
             // Get bridge configuration
             const bridgeInfo = this.getBridgeInfo(bridgeType)
@@ -238,14 +258,57 @@ class BridgeDetectionService {
     }
 
     /**
-     * Batch detect bridge implementations for multiple suckers (parallel)
+     * Detect bridge implementations for several suckers on one chain with a single multicall
+     */
+    async detectSuckerBridgesForChain(chainId: number, suckerAddresses: Address[]): Promise<SuckerBridgeInfo[]> {
+        const uncached = Array.from(new Set(
+            suckerAddresses
+                .map(address => address.toLowerCase() as Address)
+                .filter(address => !this.bridgeCache.has(`${chainId}-${address}`))
+        ))
+
+        if (uncached.length > 0) {
+            let bridgeTypes: BridgeType[]
+            try {
+                bridgeTypes = await this.getSuckerBridgeTypes(chainId, uncached)
+            } catch (error) {
+                console.error(`Failed to detect bridges for ${uncached.length} suckers on chain ${chainId}:`, error)
+                bridgeTypes = uncached.map(() => 'unknown' as BridgeType)
+            }
+
+            uncached.forEach((address, i) => {
+                const result: SuckerBridgeInfo = {
+                    suckerAddress: address,
+                    chainId,
+                    deployerAddress: bridgeTypes[i] === 'unknown' ? 'unknown' : 'detected',
+                    bridgeInfo: this.getBridgeInfo(bridgeTypes[i])
+                }
+                this.bridgeCache.set(`${chainId}-${address}`, result)
+            })
+
+            console.log(`Detected bridges for ${uncached.length} suckers on chain ${chainId} in one multicall`)
+        }
+
+        return suckerAddresses.map(address => this.bridgeCache.get(`${chainId}-${address.toLowerCase()}`)!)
+    }
+
+    /**
+     * Batch detect bridge implementations for multiple suckers (one multicall per chain, chains in parallel)
      */
     async detectMultipleSuckerBridges(suckers: Array<{ chainId: number; address: Address }>): Promise<SuckerBridgeInfo[]> {
-        const promises = suckers.map(({ chainId, address }) =>
-            this.detectSuckerBridge(chainId, address)
+        const byChain = new Map<number, Address[]>()
+        suckers.forEach(({ chainId, address }) => {
+            if (!byChain.has(chainId)) {
+                byChain.set(chainId, [])
+            }
+            byChain.get(chainId)!.push(address)
+        })
+
+        await Promise.all(
+            Array.from(byChain.entries()).map(([chainId, addresses]) => this.detectSuckerBridgesForChain(chainId, addresses))
         )
 
-        return Promise.all(promises)
+        return suckers.map(({ chainId, address }) => this.bridgeCache.get(`${chainId}-${address.toLowerCase()}`)!)
     }
 
     /**
@@ -314,7 +377,7 @@ class BridgeDetectionService {
     async getBridgeConfigForTransaction(sourceChainId: number, suckerAddress: Address, targetChainId: number): Promise<{
         bridgeInfo: BridgeInfo
         directionConfig: BridgeDirectionConfig
-        direction: 'l1ToL2' | 'l2ToL1' | 'l2ToL2'
+        direction: BridgeDirection
     }> {
         const bridgeInfo = await this.detectSuckerBridge(sourceChainId, suckerAddress)
         const direction = this.getBridgeDirection(sourceChainId, targetChainId)
@@ -0,0 +1,103 @@
+import { type Address } from 'viem'
+import { suckerService, type SuckerEvent } from './suckerService'
+import { bridgeStorageService, type StoredBridgeTransaction } from './bridgeStorageService'
+import { bridgeStateService } from './bridgeStateService'
+import { isSupportedChain } from '@/utils/clientUtils'
+import { isFinalStatus } from '@/utils/transactionStateMachine'
+
+type SuckerEventListener = (event: SuckerEvent) => void
+
+class BridgeEventService {
+  private listeners = new Set<SuckerEventListener>()
+  private unwatchers: (() => void)[] = []
+  private watchedKey = ''
+
+  /**
+   * Subscribe to lifecycle events of the suckers stored transactions are moving through.
+   * Watches start with the first subscriber and follow storage changes until the last one leaves.
+   */
+  subscribe(listener: SuckerEventListener): () => void {
+    this.listeners.add(listener)
+    if (this.listeners.size === 1) {
+      window.addEventListener('bridge-transactions-updated', this.refreshWatches)
+      this.refreshWatches()
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) {
+        window.removeEventListener('bridge-transactions-updated', this.refreshWatches)
+        this.stopWatches()
+      }
+    }
+  }
+
+  /**
+   * Group the suckers to watch by chain: the source side until the root is sent,
+   * the destination side until the leaf is claimed
+   */
+  private getWatchedSuckers(transactions: StoredBridgeTransaction[]): Map<number, Address[]> {
+    const suckers = new Map<number, Set<string>>()
+    const add = (chainId: number, sucker: string) => {
+      suckers.set(chainId, (suckers.get(chainId) ?? new Set()).add(sucker.toLowerCase()))
+    }
+
+    for (const tx of transactions) {
+      if (tx.status === 'claimed' || isFinalStatus(tx.status)) {
+        continue
+      }
+      if (tx.status === 'initiated' || tx.status === 'waiting_to_send' || !tx.sentNonce) {
+        add(tx.sourceChainId, tx.suckerAddress)
+      }
+      if (tx.status !== 'initiated' && tx.status !== 'waiting_to_send') {
+        add(tx.targetChainId, tx.suckerAddress)
+      }
+    }
+
+    const watched = new Map<number, Address[]>()
+    for (const [chainId, addresses] of suckers) {
+      if (isSupportedChain(chainId)) {
+        watched.set(chainId, Array.from(addresses).sort() as Address[])
+      }
+    }
+    return watched
+  }
+
+  private refreshWatches = () => {
+    const watched = this.getWatchedSuckers(bridgeStorageService.getAllTransactions())
+    const key = Array.from(watched.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([chainId, addresses]) => `${chainId}:${addresses.join(',')}`)
+      .join('|')
+
+    // Storage updates fire often, only re-subscribe when the set of suckers changes
+    if (key === this.watchedKey) {
+      return
+    }
+
+    this.stopWatches()
+    this.watchedKey = key
+
+    for (const [chainId, addresses] of watched) {
+      try {
+        this.unwatchers.push(suckerService.watchSuckerEvents(chainId, addresses, this.handleEvent))
+      } catch (error) {
+        console.warn(`Failed to watch sucker events on chain ${chainId}:`, error)
+      }
+    }
+  }
+
+  private stopWatches(): void {
+    this.unwatchers.forEach(unwatch => unwatch())
+    this.unwatchers = []
+    this.watchedKey = ''
+  }
+
+  private handleEvent = (event: SuckerEvent) => {
+    console.log(`${event.eventName} on sucker ${event.suckerAddress} (chain ${event.chainId})`)
+    bridgeStateService.handleSuckerEvent(event)
+    this.listeners.forEach(listener => listener(event))
+  }
+}
+
+export const bridgeEventService = new BridgeEventService()
@@ -0,0 +1,347 @@
+import { type Address, type Hex, concat, encodeAbiParameters, encodeFunctionData, zeroAddress } from 'viem'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+import { suckerService } from './suckerService'
+import { bridgeDetectionService } from './bridgeDetectionService'
+import { type BridgeType } from '@/types/bridge'
+
+// JBConstants.NATIVE_TOKEN
+const NATIVE_TOKEN = '0x000000000000000000000000000000000000EEEe' as Address
+
+// Gas the sucker forwards for the remote fromRemote() call (JBSucker.MESSENGER_BASE_GAS_LIMIT)
+const MESSENGER_BASE_GAS_LIMIT = BigInt(300000)
+// Gas the Arbitrum token gateway gets for ERC-20 transfers (JBSucker.MESSENGER_ERC20_MIN_GAS_LIMIT)
+const MESSENGER_ERC20_MIN_GAS_LIMIT = BigInt(200000)
+
+// Client._argsToBytes prefixes EVMExtraArgsV1 with this tag
+const EVM_EXTRA_ARGS_V1_TAG = '0x97a657c9' as Hex
+
+const FEE_BUFFER_STORAGE_KEY = 'juicerkle-fee-buffer-bps'
+const DEFAULT_FEE_BUFFER_BPS = 1000 // 10%
+const MAX_FEE_BUFFER_BPS = 10000
+
+const CCIP_SUCKER_ABI = [
+  {
+    name: 'CCIP_ROUTER',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }]
+  },
+  {
+    name: 'REMOTE_CHAIN_SELECTOR',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint64' }]
+  }
+] as const
+
+const CCIP_ROUTER_ABI = [
+  {
+    name: 'getFee',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'destinationChainSelector', type: 'uint64' },
+      {
+        name: 'message',
+        type: 'tuple',
+        components: [
+          { name: 'receiver', type: 'bytes' },
+          { name: 'data', type: 'bytes' },
+          {
+            name: 'tokenAmounts',
+            type: 'tuple[]',
+            components: [
+              { name: 'token', type: 'address' },
+              { name: 'amount', type: 'uint256' }
+            ]
+          },
+          { name: 'feeToken', type: 'address' },
+          { name: 'extraArgs', type: 'bytes' }
+        ]
+      }
+    ],
+    outputs: [{ name: 'fee', type: 'uint256' }]
+  },
+  {
+    name: 'getWrappedNative',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }]
+  }
+] as const
+
+const ARBITRUM_SUCKER_ABI = [
+  {
+    name: 'ARBINBOX',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }]
+  }
+] as const
+
+const ARBITRUM_INBOX_ABI = [
+  {
+    name: 'calculateRetryableSubmissionFee',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'dataLength', type: 'uint256' },
+      { name: 'baseFee', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'uint256' }]
+  }
+] as const
+
+// JBSucker.fromRemote(JBMessageRoot), the message every bridge delivers to the peer
+const FROM_REMOTE_ABI = [
+  {
+    name: 'fromRemote',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      {
+        name: 'root',
+        type: 'tuple',
+        components: [
+          { name: 'token', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+          {
+            name: 'remoteRoot',
+            type: 'tuple',
+            components: [
+              { name: 'nonce', type: 'uint64' },
+              { name: 'root', type: 'bytes32' }
+            ]
+          }
+        ]
+      }
+    ],
+    outputs: []
+  }
+] as const
+
+const MESSAGE_ROOT_PARAMETERS = FROM_REMOTE_ABI[0].inputs
+
+export interface BridgeFeeQuote {
+  bridgeType: BridgeType
+  fee: bigint // What the bridge charges through msg.value (0 when the direction isn't paid)
+  value: bigint // Fee plus the configured buffer, sent with toRemote()
+  bufferBps: number
+  estimatedGasCost: bigint | null // Source chain gas for the toRemote() transaction, if it could be estimated
+}
+
+interface OutboxMessage {
+  remoteToken: Address
+  minGas: bigint
+  amount: bigint
+  nonce: bigint
+  root: Hex
+}
+
+class BridgeFeeService {
+  /**
+   * Get the fee buffer in basis points: user setting, then NEXT_PUBLIC_BRIDGE_FEE_BUFFER_BPS, then 10%
+   */
+  getFeeBufferBps(): number {
+    if (typeof window !== 'undefined') {
+      const stored = localStorage.getItem(FEE_BUFFER_STORAGE_KEY)
+      if (stored !== null && this.isValidFeeBufferBps(Number(stored))) {
+        return Number(stored)
+      }
+    }
+
+    const env = Number(process.env.NEXT_PUBLIC_BRIDGE_FEE_BUFFER_BPS)
+    return this.isValidFeeBufferBps(env) ? env : DEFAULT_FEE_BUFFER_BPS
+  }
+
+  isValidFeeBufferBps(bps: number): boolean {
+    return Number.isInteger(bps) && bps >= 0 && bps <= MAX_FEE_BUFFER_BPS
+  }
+
+  saveFeeBufferBps(bps: number): void {
+    if (!this.isValidFeeBufferBps(bps)) {
+      throw new Error(`Fee buffer must be a whole number of basis points between 0 and ${MAX_FEE_BUFFER_BPS}`)
+    }
+    localStorage.setItem(FEE_BUFFER_STORAGE_KEY, bps.toString())
+  }
+
+  clearFeeBufferBps(): void {
+    localStorage.removeItem(FEE_BUFFER_STORAGE_KEY)
+  }
+
+  /**
+   * Read what the next toRemote() call will send: the outbox balance and the root it would carry
+   */
+  private async getOutboxMessage(chainId: number, suckerAddress: Address, token: Address): Promise<OutboxMessage> {
+    const [outbox, mapping] = await Promise.all([
+      suckerService.getOutboxTree(chainId, suckerAddress, token),
+      suckerService.getRemoteTokenMapping(chainId, suckerAddress, token)
+    ])
+
+    return {
+      remoteToken: mapping.addr,
+      minGas: BigInt(mapping.minGas),
+      amount: BigInt(outbox.balance),
+      nonce: BigInt(outbox.nonce + 1),
+      // Only the encoded size matters for quoting, not the root itself
+      root: `0x${'00'.repeat(32)}` as Hex
+    }
+  }
+
+  private encodeMessageRoot(message: OutboxMessage): Hex {
+    return encodeAbiParameters(MESSAGE_ROOT_PARAMETERS, [{
+      token: message.remoteToken,
+      amount: message.amount,
+      remoteRoot: { nonce: message.nonce, root: message.root }
+    }])
+  }
+
+  /**
+   * Quote a CCIP send with the router's getFee, mirroring the message JBCCIPSucker builds
+   */
+  private async quoteCCIP(chainId: number, suckerAddress: Address, token: Address): Promise<bigint> {
+    const client = getSharedPublicClient(chainId)
+
+    const [router, remoteChainSelector, peer, message] = await Promise.all([
+      client.readContract({ address: suckerAddress, abi: CCIP_SUCKER_ABI, functionName: 'CCIP_ROUTER' }),
+      client.readContract({ address: suckerAddress, abi: CCIP_SUCKER_ABI, functionName: 'REMOTE_CHAIN_SELECTOR' }),
+      suckerService.getPeer(chainId, suckerAddress),
+      this.getOutboxMessage(chainId, suckerAddress, token)
+    ])
+
+    // Native tokens are wrapped before they're bridged
+    let bridgedToken = token
+    if (token.toLowerCase() === NATIVE_TOKEN.toLowerCase()) {
+      bridgedToken = await client.readContract({ address: router, abi: CCIP_ROUTER_ABI, functionName: 'getWrappedNative' })
+    }
+
+    return client.readContract({
+      address: router,
+      abi: CCIP_ROUTER_ABI,
+      functionName: 'getFee',
+      args: [remoteChainSelector, {
+        receiver: encodeAbiParameters([{ type: 'address' }], [peer]),
+        data: this.encodeMessageRoot(message),
+        tokenAmounts: message.amount > BigInt(0) ? [{ token: bridgedToken, amount: message.amount }] : [],
+        feeToken: zeroAddress,
+        extraArgs: concat([
+          EVM_EXTRA_ARGS_V1_TAG,
+          encodeAbiParameters([{ type: 'uint256' }], [MESSENGER_BASE_GAS_LIMIT + message.minGas])
+        ])
+      }]
+    })
+  }
+
+  /**
+   * Quote the L2 retryable tickets JBArbitrumSucker creates when sending from L1:
+   * submission cost plus L2 gas for the message, and again for the token gateway on ERC-20s
+   */
+  private async quoteArbitrumRetryable(chainId: number, suckerAddress: Address, token: Address, targetChainId: number): Promise<bigint> {
+    const client = getSharedPublicClient(chainId)
+    const remoteClient = getSharedPublicClient(targetChainId)
+
+    const [inbox, message, block, l2GasPrice] = await Promise.all([
+      client.readContract({ address: suckerAddress, abi: ARBITRUM_SUCKER_ABI, functionName: 'ARBINBOX' }),
+      this.getOutboxMessage(chainId, suckerAddress, token),
+      client.getBlock(),
+      remoteClient.getGasPrice()
+    ])
+
+    const baseFee = block.baseFeePerGas ?? BigInt(0)
+    const data = encodeFunctionData({
+      abi: FROM_REMOTE_ABI,
+      functionName: 'fromRemote',
+      args: [{
+        token: message.remoteToken,
+        amount: message.amount,
+        remoteRoot: { nonce: message.nonce, root: message.root }
+      }]
+    })
+
+    const submissionCost = await client.readContract({
+      address: inbox,
+      abi: ARBITRUM_INBOX_ABI,
+      functionName: 'calculateRetryableSubmissionFee',
+      args: [BigInt((data.length - 2) / 2), baseFee]
+    })
+
+    let fee = submissionCost + MESSENGER_BASE_GAS_LIMIT * l2GasPrice
+
+    if (token.toLowerCase() !== NATIVE_TOKEN.toLowerCase() && message.amount > BigInt(0)) {
+      // Gateway outbound transfers carry their own retryable; its calldata is comparable in size
+      fee += submissionCost + (MESSENGER_ERC20_MIN_GAS_LIMIT + message.minGas) * l2GasPrice
+    }
+
+    return fee
+  }
+
+  /**
+   * Estimate the source chain gas cost of toRemote(), which for OP deposits includes the messenger's L2 gas
+   */
+  private async estimateGasCost(chainId: number, suckerAddress: Address, token: Address, value: bigint, account?: Address): Promise<bigint | null> {
+    try {
+      const client = getSharedPublicClient(chainId)
+      const contractData = suckerService.getToRemoteFunctionData(token, value)
+
+      const [gas, fees] = await Promise.all([
+        client.estimateContractGas({
+          address: suckerAddress,
+          abi: contractData.abi,
+          functionName: contractData.functionName,
+          args: contractData.args,
+          value,
+          account
+        }),
+        client.estimateFeesPerGas()
+      ])
+
+      return gas * (fees.maxFeePerGas ?? fees.gasPrice ?? BigInt(0))
+    } catch (error) {
+      console.warn(`Failed to estimate toRemote gas on chain ${chainId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Quote the msg.value toRemote() needs for a sucker and token, plus the configured buffer
+   */
+  async quoteToRemote(
+    sourceChainId: number,
+    suckerAddress: Address,
+    token: Address,
+    targetChainId: number,
+    account?: Address
+  ): Promise<BridgeFeeQuote> {
+    const { bridgeInfo } = await bridgeDetectionService.detectSuckerBridge(sourceChainId, suckerAddress)
+    const bridgeType = bridgeInfo.type
+    const directionConfig = bridgeDetectionService.getBridgeDirectionConfig(bridgeType, sourceChainId, targetChainId)
+
+    let fee = BigInt(0)
+    if (directionConfig.requiresPayment) {
+      switch (bridgeType) {
+        case 'CCIP':
+          fee = await this.quoteCCIP(sourceChainId, suckerAddress, token)
+          break
+        case 'ArbitrumCanonical':
+          fee = await this.quoteArbitrumRetryable(sourceChainId, suckerAddress, token, targetChainId)
+          break
+        default:
+          throw new Error(`Cannot quote bridge fees for ${bridgeInfo.displayName}`)
+      }
+    }
+
+    const bufferBps = this.getFeeBufferBps()
+    const value = fee + (fee * BigInt(bufferBps)) / BigInt(10000)
+    const estimatedGasCost = await this.estimateGasCost(sourceChainId, suckerAddress, token, value, account)
+
+    console.log(`Quoted toRemote on chain ${sourceChainId} via ${bridgeType}: fee ${fee}, sending ${value}`)
+
+    return { bridgeType, fee, value, bufferBps, estimatedGasCost }
+  }
+}
+
+export const bridgeFeeService = new BridgeFeeService()
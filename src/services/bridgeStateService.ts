@@ -1,8 +1,18 @@
-import { type Address } from 'viem'
-import { suckerService } from './suckerService'
+import { type Address, type Hash } from 'viem'
+import { suckerService, type SuckerEvent, type PrepareOutcome } from './suckerService'
 import { bridgeStorageService, type StoredBridgeTransaction } from './bridgeStorageService'
 import { juicemerkleApiService } from './juicemerkleApiService'
-import { type TransactionStatus, type JBOutboxTree } from '@/types/bridge'
+import { merkleProofService } from './merkleProofService'
+import { suckerDiscoveryService } from './suckerDiscoveryService'
+import { bridgeDetectionService } from './bridgeDetectionService'
+import { arbitrumOutboxService } from './arbitrumOutboxService'
+import { optimismWithdrawalService } from './optimismWithdrawalService'
+import { ccipMessageService } from './ccipMessageService'
+import { historyRecoveryService } from './historyRecoveryService'
+import { watchlistService } from './watchlistService'
+import { type TransactionStatus, type JBOutboxTree, type JBClaim } from '@/types/bridge'
+import { bridgeDirectionRequiresFinalization } from '@/utils/bridgeUtils'
+import { getSharedPublicClient } from '@/utils/clientUtils'
 
 export interface BridgeStateInfo {
   transactionId: string
@@ -22,6 +32,37 @@ class BridgeStateService {
   private lastBackendCheck = 0
   private readonly BACKEND_CHECK_INTERVAL = 60000 // 60 seconds
 
+  // Dispute games and proof maturity move on the scale of hours, so don't re-check every poll
+  private readonly OP_WITHDRAWAL_CHECK_INTERVAL = 60000 // 60 seconds
+  private readonly CCIP_MESSAGE_CHECK_INTERVAL = 30000 // 30 seconds
+
+  // Last RootToRemote scan per source sucker/token, and block times of the sends found
+  private lastRootIndex = new Map<string, number>()
+  private readonly ROOT_INDEX_INTERVAL = 60000 // 60 seconds
+  private blockTimestampCache = new Map<string, number>()
+
+  // Last inbox read per destination sucker/token, so storage-triggered re-checks don't re-read it
+  private lastInboxCheck = new Map<string, number>()
+  private readonly INBOX_CHECK_INTERVAL = 30000 // 30 seconds
+
+  // A sent root that hasn't arrived after this many times the bridge's estimate (and at least an hour) is stuck
+  private readonly STUCK_ESTIMATE_MULTIPLIER = 4
+  private readonly STUCK_MIN_DELAY = 3600000 // 1 hour
+
+  // Emergency hatches are opened by project owners and rarely, so token mappings are re-read sparingly
+  private lastEmergencyHatchCheck = new Map<string, number>()
+  private readonly EMERGENCY_HATCH_CHECK_INTERVAL = 300000 // 5 minutes
+
+  // prepare() receipts being waited on, keyed by transaction ID, so the form and resumed checks share one wait
+  private pendingPrepares = new Map<string, Promise<TransactionStatus>>()
+  // A prepare() still unconfirmed after this long is checked for having been dropped
+  private readonly PREPARE_MAX_AGE = 3600000 // 1 hour
+
+  // Scanning every sucker's outbox is heavy, so watched addresses are picked up less often
+  private lastWatchlistSync = 0
+  private watchlistSync: Promise<number> | null = null
+  private readonly WATCHLIST_SYNC_INTERVAL = 300000 // 5 minutes
+
   /**
    * Get outbox tree with caching to reduce RPC calls
    */
@@ -91,12 +132,17 @@ class BridgeStateService {
         try {
           console.log(`Checking backend for claims: chain ${request.chainId}, sucker ${request.sucker}, token ${request.token}, beneficiary ${request.beneficiary}`)
           
-          const claims = await juicemerkleApiService.getClaimsForBeneficiary(
-            request.chainId,
-            request.sucker,
-            request.token,
-            request.beneficiary
-          )
+          let claims: JBClaim[] = []
+          try {
+            claims = await juicemerkleApiService.getClaimsForBeneficiary(
+              request.chainId,
+              request.sucker,
+              request.token,
+              request.beneficiary
+            )
+          } catch (error) {
+            console.error(`Backend claim lookup failed for group ${key}, falling back to local proofs:`, error)
+          }
           
           console.log(`Backend returned ${claims.length} claims for group ${key}`)
           
@@ -118,9 +164,13 @@ class BridgeStateService {
             }
             
             if (matchedTransaction) {
+              matchedTransactionIds.add(matchedTransaction.id)
+              if (await this.isAwaitingFinalization(matchedTransaction, claim)) {
+                continue
+              }
+              
               // Update our stored transaction with claim data
               bridgeStorageService.updateTransactionWithClaimData(matchedTransaction.id, claim)
-              matchedTransactionIds.add(matchedTransaction.id)
               console.log(`Matched claim to transaction ${matchedTransaction.id}`)
             } else {
               // This is a claim we don't know about - create a new transaction
@@ -131,32 +181,16 @@ class BridgeStateService {
                 terminalTokenAmount: claim.Leaf.TerminalTokenAmount,
                 token: claim.Token
               })
-                
-              // Ignore the below, the token here is not the project token, its the backing asset. To get the projectId we should query the sucker. 
-              // // Try to get project ID for this token
-              // try {
-              //   const projectId = await jbTokensService.getProjectIdForToken(request.chainId, claim.Token as Address)
-              //   if (projectId) {
-              //     const newTransaction = bridgeStorageService.createTransactionFromClaimData(
-              //       claim,
-              //       request.chainId,
-              //       request.sucker,
-              //       projectId
-              //     )
-              //     console.log(`Created new transaction ${newTransaction.id} from unknown backend claim`)
-              //   } else {
-              //     console.log(`Skipping unknown claim - could not find project ID for token ${claim.Token}`)
-              //   }
-              // } catch (error) {
-              //   console.error(`Failed to get project ID for unknown claim token ${claim.Token}:`, error)
-              // }
+              
+              await this.importUnknownClaim(claim, request.chainId, request.sucker, request.token)
             }
           }
           
           // Log any transactions that didn't get matched
           const unmatchedTransactions = transactions.filter(tx => !matchedTransactionIds.has(tx.id))
           if (unmatchedTransactions.length > 0) {
-            console.log(`${unmatchedTransactions.length} transactions in group ${key} did not get claim data from backend`)
+            console.log(`${unmatchedTransactions.length} transactions in group ${key} did not get claim data from backend, building proofs locally`)
+            await this.buildClaimDataLocally(unmatchedTransactions)
           }
           
         } catch (error) {
@@ -169,6 +203,85 @@ class BridgeStateService {
     }
   }
 
+  /**
+   * Store a backend claim that doesn't match any stored transaction, e.g. one bridged
+   * from another device or by a third party. The claim token is the backing asset, so
+   * the project is resolved from the sucker itself.
+   */
+  private async importUnknownClaim(claim: JBClaim, chainId: number, suckerAddress: Address, token: Address): Promise<void> {
+    // The claim may already be stored outside this group (e.g. already claimed)
+    const alreadyStored = bridgeStorageService.getAllTransactions().some(tx =>
+      tx.targetChainId === chainId &&
+      tx.suckerAddress.toLowerCase() === suckerAddress.toLowerCase() &&
+      tx.token.toLowerCase() === token.toLowerCase() &&
+      tx.index === claim.Leaf.Index.toString()
+    )
+    if (alreadyStored) {
+      return
+    }
+
+    try {
+      // Resolve the source side through the sucker's registered peer
+      const localProjectId = await suckerDiscoveryService.getProjectIdFromSucker(chainId, suckerAddress)
+      const pairs = await suckerDiscoveryService.getSuckerPairsForProject(chainId, localProjectId)
+      const pair = pairs.find(p => p.local.toLowerCase() === suckerAddress.toLowerCase())
+      if (!pair) {
+        // Without a source chain the transaction can't be tracked, the next backend check retries it
+        console.warn(`Could not resolve source chain for unknown claim on sucker ${suckerAddress}, skipping it for now`)
+        return
+      }
+
+      const sourceChainId = pair.remoteChainId
+      const projectId = await suckerDiscoveryService.getProjectIdFromSucker(pair.remoteChainId, pair.remote)
+
+      const newTransaction = bridgeStorageService.createTransactionFromClaimData(
+        claim,
+        chainId,
+        suckerAddress,
+        projectId,
+        sourceChainId,
+        token
+      )
+      console.log(`Created new transaction ${newTransaction.id} from unknown backend claim`)
+    } catch (error) {
+      console.error(`Failed to resolve the source of unknown claim on sucker ${suckerAddress}, will retry on the next check:`, error)
+    }
+  }
+
+  /**
+   * Canonical L2 -> L1 roots only reach the destination once the withdrawal is finalized,
+   * so until the claim verifies against the destination inbox it isn't claimable yet
+   */
+  private async isAwaitingFinalization(tx: StoredBridgeTransaction, claim: JBClaim): Promise<boolean> {
+    const { bridgeType, direction } = bridgeDetectionService.getDirectionConfigForTransaction(tx)
+    if (!bridgeDirectionRequiresFinalization(bridgeType, direction)) {
+      return false
+    }
+
+    const verification = await merkleProofService.verifyClaim(tx.targetChainId, tx.suckerAddress, claim)
+    if (!verification.valid) {
+      console.log(`Transaction ${tx.id} is still finalizing on chain ${tx.targetChainId}`)
+    }
+    return !verification.valid
+  }
+
+  /**
+   * Build claim data from the source sucker's outbox logs when the backend has none
+   */
+  private async buildClaimDataLocally(transactions: StoredBridgeTransaction[]): Promise<void> {
+    for (const tx of transactions) {
+      try {
+        const claim = await merkleProofService.buildClaim(tx)
+        if (claim && !(await this.isAwaitingFinalization(tx, claim))) {
+          bridgeStorageService.updateTransactionWithClaimData(tx.id, claim)
+          console.log(`Built claim data locally for transaction ${tx.id}`)
+        }
+      } catch (error) {
+        console.error(`Failed to build claim data locally for transaction ${tx.id}:`, error)
+      }
+    }
+  }
+
   /**
    * Check the current state of a bridge transaction by comparing its index 
    * with the numberOfClaimsSent from the outbox tree
@@ -201,9 +314,9 @@ class BridgeStateService {
         // Note: we could add 'ready_to_claim' state here when we integrate with juicemerkle backend
       }
       
-      // Update status in storage if it changed
-      if (currentStatus !== previousStatus) {
-        bridgeStorageService.updateTransactionStatus(transaction.id, currentStatus)
+      // Update status in storage if it changed, keeping the old one if the move is rejected
+      if (currentStatus !== previousStatus && !bridgeStorageService.transitionTransaction(transaction.id, currentStatus)) {
+        currentStatus = previousStatus
       }
       
       return {
@@ -230,14 +343,552 @@ class BridgeStateService {
     }
   }
 
+  /**
+   * Track Arbitrum L2 -> L1 messages through the challenge period until they can be executed on L1
+   */
+  private async checkArbitrumOutboxStates(transactions: StoredBridgeTransaction[]): Promise<BridgeStateInfo[]> {
+    const results: BridgeStateInfo[] = []
+    
+    const finalizing = transactions.filter(tx => {
+      if (tx.status !== 'sent_to_remote' && tx.status !== 'ready_to_execute') {
+        return false
+      }
+      const { bridgeType, direction } = bridgeDetectionService.getDirectionConfigForTransaction(tx)
+      return bridgeType === 'ArbitrumCanonical' && direction === 'l2ToL1'
+    })
+    
+    for (const tx of finalizing) {
+      try {
+        const state = await arbitrumOutboxService.getMessageState(tx)
+        if (!state) {
+          continue
+        }
+        
+        // Executed messages stay ready_to_execute until their claim data verifies on L1
+        let currentStatus: TransactionStatus = state.status === 'unconfirmed' ? 'sent_to_remote' : 'ready_to_execute'
+        if (currentStatus !== tx.status && !bridgeStorageService.transitionTransaction(tx.id, currentStatus)) {
+          currentStatus = tx.status
+        }
+        
+        results.push({
+          transactionId: tx.id,
+          currentStatus,
+          previousStatus: tx.status,
+          statusChanged: currentStatus !== tx.status
+        })
+      } catch (error) {
+        console.error(`Failed to check Arbitrum outbox state for transaction ${tx.id}:`, error)
+      }
+    }
+    
+    return results
+  }
+
+  /**
+   * Track OP Stack L2 -> L1 withdrawals through prove and finalize. Transactions stay sent_to_remote
+   * until their claim data verifies on L1; the withdrawal's own progress is kept as a sub-state.
+   */
+  private async checkOpWithdrawalStates(transactions: StoredBridgeTransaction[]): Promise<void> {
+    const now = Date.now()
+    
+    const withdrawing = transactions.filter(tx => {
+      if (tx.status !== 'sent_to_remote' || tx.opWithdrawal?.status === 'finalized') {
+        return false
+      }
+      if (tx.opWithdrawal && now - tx.opWithdrawal.updatedAt < this.OP_WITHDRAWAL_CHECK_INTERVAL) {
+        return false
+      }
+      const { bridgeType, direction } = bridgeDetectionService.getDirectionConfigForTransaction(tx)
+      return bridgeType === 'OptimismCanonical' && direction === 'l2ToL1'
+    })
+    
+    for (const tx of withdrawing) {
+      try {
+        const state = await optimismWithdrawalService.getWithdrawalState(tx)
+        if (state) {
+          bridgeStorageService.updateTransactionOpWithdrawal(tx.id, state)
+        }
+      } catch (error) {
+        console.error(`Failed to check OP withdrawal state for transaction ${tx.id}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Follow CCIP messages on the destination lane. Transactions stay sent_to_remote until their claim
+   * data verifies; the message's commit/execution progress is kept alongside for the card.
+   */
+  private async checkCcipMessageStates(transactions: StoredBridgeTransaction[]): Promise<void> {
+    const now = Date.now()
+    
+    const inFlight = transactions.filter(tx => {
+      if (tx.status !== 'sent_to_remote' || tx.ccipMessage?.status === 'executed') {
+        return false
+      }
+      if (tx.ccipMessage && now - tx.ccipMessage.updatedAt < this.CCIP_MESSAGE_CHECK_INTERVAL) {
+        return false
+      }
+      return bridgeDetectionService.getDirectionConfigForTransaction(tx).bridgeType === 'CCIP'
+    })
+    
+    for (const tx of inFlight) {
+      try {
+        const state = await ccipMessageService.getMessageState(tx)
+        if (state) {
+          bridgeStorageService.updateTransactionCcipMessage(tx.id, {
+            messageId: state.sent.message.messageId,
+            sequenceNumber: state.sent.message.sequenceNumber.toString(),
+            status: state.status,
+            updatedAt: Date.now()
+          })
+        }
+      } catch (error) {
+        console.error(`Failed to check CCIP message state for transaction ${tx.id}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Reconcile ready_to_claim and claimed transactions with the destination sucker's executed leaves.
+   * Picks up claims made elsewhere and catches "claimed" states that were only assumed.
+   */
+  private async reconcileClaimedLeaves(transactions: StoredBridgeTransaction[]): Promise<BridgeStateInfo[]> {
+    const results: BridgeStateInfo[] = []
+    
+    const unsettled = transactions.filter(tx =>
+      (tx.status === 'ready_to_claim' || tx.status === 'claim_failed' || (tx.status === 'claimed' && !tx.claimVerified)) &&
+      tx.claimLeaf && tx.claimProof
+    )
+    
+    // The destination keys executed leaves by its own token, so look it up once per sucker/token
+    const groups = new Map<string, StoredBridgeTransaction[]>()
+    for (const tx of unsettled) {
+      const key = `${tx.sourceChainId}-${tx.targetChainId}-${tx.suckerAddress.toLowerCase()}-${tx.token.toLowerCase()}`
+      groups.set(key, [...(groups.get(key) ?? []), tx])
+    }
+    
+    for (const group of groups.values()) {
+      const claimToken = await merkleProofService.getClaimToken(group[0])
+      
+      for (const tx of group) {
+        try {
+          const executed = await suckerService.isLeafExecuted(tx.targetChainId, tx.suckerAddress, {
+            Token: tx.claimToken ?? claimToken,
+            Leaf: tx.claimLeaf!,
+            Proof: tx.claimProof!
+          })
+          if (executed === null) {
+            continue
+          }
+          
+          // A failed claim stays failed until a retry lands
+          const currentStatus = executed ? 'claimed' : tx.status === 'claim_failed' ? 'claim_failed' : 'ready_to_claim'
+          if (currentStatus === 'ready_to_claim' && tx.status === 'claimed') {
+            console.warn(`Transaction ${tx.id} was marked claimed but leaf ${tx.claimLeaf!.Index} isn't executed on chain ${tx.targetChainId}`)
+          }
+          if (currentStatus !== tx.status || executed !== tx.claimVerified) {
+            bridgeStorageService.updateTransactionClaimExecution(tx.id, executed)
+          }
+          
+          results.push({
+            transactionId: tx.id,
+            currentStatus,
+            previousStatus: tx.status,
+            statusChanged: currentStatus !== tx.status
+          })
+        } catch (error) {
+          console.error(`Failed to reconcile claim state for transaction ${tx.id}:`, error)
+        }
+      }
+    }
+    
+    return results
+  }
+
+  private async getBlockTimestamp(chainId: number, blockNumber: bigint): Promise<number> {
+    const cacheKey = `${chainId}-${blockNumber}`
+    const cached = this.blockTimestampCache.get(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    const block = await getSharedPublicClient(chainId).getBlock({ blockNumber })
+    const timestamp = Number(block.timestamp) * 1000
+    this.blockTimestampCache.set(cacheKey, timestamp)
+    return timestamp
+  }
+
+  /**
+   * Get a block no later than the one a leaf was inserted at: its prepare() receipt, the block an
+   * outbox scan found it at, or failing both the sucker's deploy block. Null if none of them is known.
+   */
+  private async getLeafInsertBlock(tx: StoredBridgeTransaction): Promise<bigint | null> {
+    try {
+      const receipt = await getSharedPublicClient(tx.sourceChainId).getTransactionReceipt({ hash: tx.transactionHash as Hash })
+      return receipt.blockNumber
+    } catch (error) {
+      console.warn(`Failed to get prepare receipt ${tx.transactionHash}:`, error)
+    }
+
+    const leafBlock = merkleProofService.getCachedLeafBlock(tx.sourceChainId, tx.suckerAddress, tx.token, Number(tx.index))
+    if (leafBlock !== null) {
+      return leafBlock
+    }
+
+    return suckerService.getDeployBlock(tx.sourceChainId, tx.suckerAddress)
+  }
+
+  /**
+   * Find the RootToRemote event that sent each leaf, with one log scan per source sucker/token,
+   * and store its transaction, block time, nonce and sender
+   */
+  private async indexSentRoots(transactions: StoredBridgeTransaction[]): Promise<void> {
+    const unindexed = transactions.filter(tx =>
+      tx.index && !tx.sentNonce &&
+      (tx.status === 'sent_to_remote' || tx.status === 'ready_to_execute' || tx.status === 'ready_to_claim' || tx.status === 'stuck')
+    )
+
+    const groups = new Map<string, StoredBridgeTransaction[]>()
+    for (const tx of unindexed) {
+      const key = `${tx.sourceChainId}-${tx.suckerAddress.toLowerCase()}-${tx.token.toLowerCase()}`
+      groups.set(key, [...(groups.get(key) ?? []), tx])
+    }
+
+    const now = Date.now()
+    for (const [key, group] of groups) {
+      if (now - (this.lastRootIndex.get(key) ?? 0) < this.ROOT_INDEX_INTERVAL) {
+        continue
+      }
+      this.lastRootIndex.set(key, now)
+
+      try {
+        const { sourceChainId, suckerAddress, token } = group[0]
+
+        // No root carrying these leaves can be older than the earliest leaf's prepare()
+        const earliest = group.reduce((min, tx) => BigInt(tx.index) < BigInt(min.index) ? tx : min)
+        const fromBlock = await this.getLeafInsertBlock(earliest)
+        if (fromBlock === null) {
+          console.warn(`No lower bound to scan RootToRemote events from for group ${key}, skipping`)
+          continue
+        }
+
+        const logs = await suckerService.getRootToRemoteLogsSince(sourceChainId, suckerAddress, token, fromBlock)
+
+        // Roots go out in order, so a leaf was sent by the first root that reaches its index
+        for (const tx of group) {
+          const log = logs.find(log => BigInt(log.index) >= BigInt(tx.index))
+          if (!log) {
+            continue
+          }
+          bridgeStorageService.updateTransactionSentRoot(tx.id, {
+            nonce: log.nonce,
+            transactionHash: log.transactionHash,
+            timestamp: await this.getBlockTimestamp(sourceChainId, log.blockNumber),
+            caller: log.caller
+          })
+        }
+      } catch (error) {
+        console.warn(`Failed to index RootToRemote events for group ${key}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Detect when a sent root has reached the destination sucker: its inbox nonce for the remote
+   * token catches up with the outbox nonce the root was sent with. Claim proofs only exist from then on.
+   */
+  private async checkInboxArrivals(transactions: StoredBridgeTransaction[]): Promise<void> {
+    const inFlight = transactions.filter(tx =>
+      (tx.status === 'sent_to_remote' || tx.status === 'ready_to_execute' || tx.status === 'stuck') && !tx.arrivedAt && tx.index
+    )
+
+    // One inbox read per destination sucker/token (sent nonces come from indexSentRoots)
+    const groups = new Map<string, StoredBridgeTransaction[]>()
+    for (const tx of inFlight) {
+      const stored = bridgeStorageService.getTransactionById(tx.id)
+      if (!stored?.sentNonce) {
+        continue
+      }
+      const key = `${tx.targetChainId}-${tx.suckerAddress.toLowerCase()}-${tx.token.toLowerCase()}`
+      groups.set(key, [...(groups.get(key) ?? []), stored])
+    }
+
+    const now = Date.now()
+    for (const [key, group] of groups) {
+      if (now - (this.lastInboxCheck.get(key) ?? 0) < this.INBOX_CHECK_INTERVAL) {
+        continue
+      }
+      this.lastInboxCheck.set(key, now)
+
+      try {
+        const first = group[0]
+        // The destination inbox is keyed by its own (remote) token address
+        const remoteToken = await suckerService.getRemoteToken(first.sourceChainId, first.suckerAddress, first.token)
+        const inbox = await suckerService.getInboxTreeRoot(first.targetChainId, first.suckerAddress, remoteToken)
+
+        for (const tx of group) {
+          const sentNonce = BigInt(tx.sentNonce!)
+          if (BigInt(inbox.nonce) < sentNonce) {
+            continue
+          }
+
+          let arrival = null
+          try {
+            arrival = await suckerService.findNewInboxTreeRootLog(tx.targetChainId, tx.suckerAddress, remoteToken, sentNonce)
+          } catch (error) {
+            console.warn(`Failed to find the NewInboxTreeRoot log for transaction ${tx.id}:`, error)
+          }
+
+          bridgeStorageService.updateTransactionArrival(tx.id, Date.now(), arrival?.transactionHash)
+          if (tx.status === 'stuck') {
+            bridgeStorageService.transitionTransaction(tx.id, 'sent_to_remote')
+          }
+          console.log(`Transaction ${tx.id} arrived on chain ${tx.targetChainId} (inbox nonce ${inbox.nonce}, sent with ${tx.sentNonce})`)
+        }
+      } catch (error) {
+        console.warn(`Failed to check inbox for group ${key}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Wait for a stored prepare() transaction to land and finalize its record: the leaf it inserted moves it to
+   * waiting_to_send, a revert to prepare_reverted. Resolves with the status the transaction ends up in.
+   * A permit + prepare() batch stored before its receipt is first waited on through the wallet for its hash.
+   * A prepare() past PREPARE_MAX_AGE that the node doesn't know moves to prepare_dropped.
+   */
+  finalizePendingPrepare(transaction: StoredBridgeTransaction): Promise<TransactionStatus> {
+    const pending = this.pendingPrepares.get(transaction.id)
+    if (pending) {
+      return pending
+    }
+
+    // Null when the prepare() never made it onchain
+    const waitForOutcome = async (): Promise<PrepareOutcome | null> => {
+      const expired = Date.now() - transaction.timestamp > this.PREPARE_MAX_AGE
+
+      let transactionHash = transaction.transactionHash as Hash
+      if (!transactionHash && transaction.prepareCallsId) {
+        try {
+          const callsHash = await suckerService.waitForPrepareCallsHash(transaction.prepareCallsId)
+          if (!callsHash) {
+            return null
+          }
+          bridgeStorageService.updatePrepareTransactionHash(transaction.id, callsHash)
+          transactionHash = callsHash
+        } catch (error) {
+          // Only the wallet that sent the batch can say what became of it, so an old batch is given up on
+          if (expired) {
+            console.warn(`Giving up on prepare batch ${transaction.prepareCallsId}:`, error)
+            return null
+          }
+          throw error
+        }
+      }
+
+      try {
+        return await suckerService.waitForPrepareOutcome(transaction.sourceChainId, transaction.suckerAddress, transactionHash)
+      } catch (error) {
+        if (expired && !await suckerService.isTransactionKnown(transaction.sourceChainId, transactionHash)) {
+          return null
+        }
+        throw error
+      }
+    }
+
+    const finalize = async (): Promise<TransactionStatus> => {
+      const outcome = await waitForOutcome()
+      if (!outcome) {
+        bridgeStorageService.transitionTransaction(transaction.id, 'prepare_dropped')
+        return 'prepare_dropped'
+      }
+
+      if (outcome.reverted) {
+        bridgeStorageService.transitionTransaction(transaction.id, 'prepare_reverted', { transactionHash: outcome.transactionHash })
+        return 'prepare_reverted'
+      }
+      if (!outcome.event) {
+        throw new Error(`No InsertToOutboxTree event in prepare transaction ${outcome.transactionHash}`)
+      }
+
+      let bridgeInfo = transaction.bridgeInfo
+      if (!bridgeInfo) {
+        try {
+          bridgeInfo = await bridgeDetectionService.detectSuckerBridge(transaction.sourceChainId, transaction.suckerAddress)
+        } catch (error) {
+          console.warn('Failed to detect bridge implementation:', error)
+        }
+      }
+
+      const { hashed, index, root, caller, terminalTokenAmount } = outcome.event
+      bridgeStorageService.transitionTransaction(transaction.id, 'waiting_to_send', {
+        transactionHash: outcome.transactionHash,
+        hashed,
+        index,
+        root,
+        caller,
+        terminalTokenAmount,
+        bridgeInfo
+      })
+      return 'waiting_to_send'
+    }
+
+    const promise = finalize().finally(() => this.pendingPrepares.delete(transaction.id))
+    this.pendingPrepares.set(transaction.id, promise)
+    return promise
+  }
+
+  /**
+   * Pick up prepare() transactions stored before they confirmed, e.g. when the tab closed in between
+   */
+  private resumePendingPrepares(transactions: StoredBridgeTransaction[]): void {
+    const pending = transactions.filter(tx => tx.status === 'initiated' && !tx.index && (tx.transactionHash || tx.prepareCallsId))
+
+    for (const tx of pending) {
+      if (this.pendingPrepares.has(tx.id)) {
+        continue
+      }
+      const prepare = tx.transactionHash || `batch ${tx.prepareCallsId}`
+      console.log(`Resuming prepare transaction ${prepare} for ${tx.id}`)
+      this.finalizePendingPrepare(tx).catch(error => {
+        console.warn(`Failed to finalize prepare transaction ${prepare}, retrying on the next check:`, error)
+      })
+    }
+  }
+
+  /**
+   * Mark sent transactions whose root still hasn't reached the destination well past the bridge's estimate.
+   * Directions with a challenge period or user-driven prove/finalize steps are never stuck, only waiting.
+   */
+  private checkStuckTransactions(transactions: StoredBridgeTransaction[]): void {
+    const now = Date.now()
+
+    for (const tx of transactions) {
+      const sentAt = tx.toRemoteTimestamp ?? tx.sentToRemoteAt
+      if (tx.status !== 'sent_to_remote' || tx.arrivedAt || !sentAt) {
+        continue
+      }
+
+      const { bridgeType, direction, directionConfig } = bridgeDetectionService.getDirectionConfigForTransaction(tx)
+      if (bridgeDirectionRequiresFinalization(bridgeType, direction)) {
+        continue
+      }
+
+      const stuckAfter = Math.max(directionConfig.estimatedTimeMinutes * 60000 * this.STUCK_ESTIMATE_MULTIPLIER, this.STUCK_MIN_DELAY)
+      if (now - sentAt > stuckAfter) {
+        console.warn(`Transaction ${tx.id} was sent ${Math.round((now - sentAt) / 60000)} minutes ago and hasn't arrived on chain ${tx.targetChainId}`)
+        bridgeStorageService.transitionTransaction(tx.id, 'stuck')
+      }
+    }
+  }
+
+  /**
+   * Move unsent transactions to emergency_exit once their token's emergency hatch is open: toRemote() no longer
+   * accepts the token, so those leaves can only be exited on the source chain
+   */
+  private async checkEmergencyHatches(transactions: StoredBridgeTransaction[]): Promise<void> {
+    const unsent = transactions.filter(tx => (tx.status === 'initiated' || tx.status === 'waiting_to_send') && tx.index)
+
+    const groups = new Map<string, StoredBridgeTransaction[]>()
+    for (const tx of unsent) {
+      const key = `${tx.sourceChainId}-${tx.suckerAddress.toLowerCase()}-${tx.token.toLowerCase()}`
+      groups.set(key, [...(groups.get(key) ?? []), tx])
+    }
+
+    const now = Date.now()
+    for (const [key, group] of groups) {
+      if (now - (this.lastEmergencyHatchCheck.get(key) ?? 0) < this.EMERGENCY_HATCH_CHECK_INTERVAL) {
+        continue
+      }
+      this.lastEmergencyHatchCheck.set(key, now)
+
+      try {
+        const { sourceChainId, suckerAddress, token } = group[0]
+        const mapping = await suckerService.getRemoteTokenMapping(sourceChainId, suckerAddress, token)
+        if (!mapping.emergencyHatch) {
+          continue
+        }
+
+        // Leaves the outbox already sent are on their way and unaffected
+        const outboxTree = await this.getCachedOutboxTree(sourceChainId, suckerAddress, token)
+        for (const tx of group) {
+          if (parseInt(tx.index) >= outboxTree.numberOfClaimsSent) {
+            bridgeStorageService.transitionTransaction(tx.id, 'emergency_exit')
+          }
+        }
+      } catch (error) {
+        console.warn(`Failed to check the emergency hatch for group ${key}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Store new bridges to watched addresses from every watched project's suckers.
+   * A sync already running is shared rather than started again.
+   */
+  async syncWatchlist(force = false): Promise<number> {
+    if (this.watchlistSync) {
+      return this.watchlistSync
+    }
+
+    const now = Date.now()
+    if (!force && now - this.lastWatchlistSync < this.WATCHLIST_SYNC_INTERVAL) {
+      return 0
+    }
+    this.lastWatchlistSync = now
+
+    this.watchlistSync = this.recoverWatchedHistory().finally(() => {
+      this.watchlistSync = null
+    })
+    return this.watchlistSync
+  }
+
+  private async recoverWatchedHistory(): Promise<number> {
+    const { addresses, projects } = watchlistService.getWatchlist()
+    if (addresses.length === 0 || projects.length === 0) {
+      return 0
+    }
+
+    let recovered = 0
+    for (const project of projects) {
+      try {
+        const result = await historyRecoveryService.recoverHistory(
+          project.chainId,
+          project.projectId,
+          addresses.map(watched => watched.address)
+        )
+        recovered += result.recovered.length
+      } catch (error) {
+        console.warn(`Failed to sync watched addresses for project ${project.projectId} on chain ${project.chainId}:`, error)
+      }
+    }
+
+    return recovered
+  }
+
   /**
    * Check states for all confirmed transactions (optimized with batching)
    */
   async checkAllTransactionStates(): Promise<BridgeStateInfo[]> {
+    await bridgeStorageService.ready()
+    this.resumePendingPrepares(bridgeStorageService.getAllTransactions())
+    
+    // Arrivals decide which transactions the backend is asked about
+    await this.indexSentRoots(bridgeStorageService.getAllTransactions())
+    await this.checkInboxArrivals(bridgeStorageService.getAllTransactions())
+    
     // Check backend for claim data first (rate limited to 60 seconds)
     await this.checkBackendForClaimData()
+    // Recovery scans whole sucker histories, so it runs alongside the checks instead of holding them up
+    this.syncWatchlist().catch(error => console.warn('Failed to sync watched addresses:', error))
+    await this.checkEmergencyHatches(bridgeStorageService.getAllTransactions())
+    this.checkStuckTransactions(bridgeStorageService.getAllTransactions())
     
     const allTransactions = bridgeStorageService.getAllTransactions()
+    const claimResults = await this.reconcileClaimedLeaves(allTransactions)
+    const trackedResults = [...claimResults, ...await this.checkArbitrumOutboxStates(allTransactions)]
+    await this.checkOpWithdrawalStates(allTransactions)
+    await this.checkCcipMessageStates(allTransactions)
     
     // Filter to only initiated transactions (have index) and not yet claimed
     const confirmedTransactions = allTransactions.filter(
@@ -246,20 +897,37 @@ class BridgeStateService {
     
     // If no transactions need checking, return empty array
     if (confirmedTransactions.length === 0) {
-      return []
+      return trackedResults
     }
     
-    return this.checkTransactionStatesBatch(confirmedTransactions)
+    const batchResults = await this.checkTransactionStatesBatch(confirmedTransactions)
+    // The trackers have the more advanced state for transactions both looked at
+    return [...trackedResults, ...batchResults.filter(result => !trackedResults.some(r => r.transactionId === result.transactionId))]
   }
 
   /**
    * Check state for transactions on a specific chain (optimized with batching)
    */
   async checkTransactionStatesForChain(chainId: number): Promise<BridgeStateInfo[]> {
+    await bridgeStorageService.ready()
+    this.resumePendingPrepares(bridgeStorageService.getTransactionsByChain(chainId).filter(tx => tx.sourceChainId === chainId))
+    
+    // Arrivals decide which transactions the backend is asked about
+    await this.indexSentRoots(bridgeStorageService.getTransactionsByChain(chainId).filter(tx => tx.sourceChainId === chainId))
+    await this.checkInboxArrivals(bridgeStorageService.getTransactionsByChain(chainId).filter(tx => tx.sourceChainId === chainId))
+    
     // Check backend for claim data first (rate limited to 60 seconds)
     await this.checkBackendForClaimData()
+    await this.checkEmergencyHatches(bridgeStorageService.getTransactionsByChain(chainId).filter(tx => tx.sourceChainId === chainId))
+    this.checkStuckTransactions(bridgeStorageService.getTransactionsByChain(chainId).filter(tx => tx.sourceChainId === chainId))
     
     const chainTransactions = bridgeStorageService.getTransactionsByChain(chainId)
+    const sourceTransactions = chainTransactions.filter(tx => tx.sourceChainId === chainId)
+    // Claims live on the destination chain
+    const claimResults = await this.reconcileClaimedLeaves(chainTransactions.filter(tx => tx.targetChainId === chainId))
+    const trackedResults = [...claimResults, ...await this.checkArbitrumOutboxStates(sourceTransactions)]
+    await this.checkOpWithdrawalStates(sourceTransactions)
+    await this.checkCcipMessageStates(sourceTransactions)
     
     const confirmedTransactions = chainTransactions.filter(
       tx => (tx.status === 'initiated' || tx.status === 'waiting_to_send' || tx.status === 'sent_to_remote') && 
@@ -268,10 +936,12 @@ class BridgeStateService {
     
     // If no transactions need checking, return empty array
     if (confirmedTransactions.length === 0) {
-      return []
+      return trackedResults
     }
     
-    return this.checkTransactionStatesBatch(confirmedTransactions)
+    const batchResults = await this.checkTransactionStatesBatch(confirmedTransactions)
+    // The trackers have the more advanced state for transactions both looked at
+    return [...trackedResults, ...batchResults.filter(result => !trackedResults.some(r => r.transactionId === result.transactionId))]
   }
 
   /**
@@ -325,9 +995,9 @@ class BridgeStateService {
               }
             }
             
-            // Update status in storage if it changed
-            if (currentStatus !== previousStatus) {
-              bridgeStorageService.updateTransactionStatus(tx.id, currentStatus)
+            // Update status in storage if it changed, keeping the old one if the move is rejected
+            if (currentStatus !== previousStatus && !bridgeStorageService.transitionTransaction(tx.id, currentStatus)) {
+              currentStatus = previousStatus
             }
             
             results.push({
@@ -382,10 +1052,22 @@ class BridgeStateService {
         return 'Added to outbox tree, waiting to be sent'
       case 'sent_to_remote':
         return 'Sent to destination chain'
+      case 'ready_to_execute':
+        return 'Challenge period over, ready to execute on L1'
       case 'ready_to_claim':
         return 'Ready to claim on destination chain'
       case 'claimed':
         return 'Successfully claimed'
+      case 'prepare_reverted':
+        return 'Prepare transaction reverted'
+      case 'prepare_dropped':
+        return 'Prepare transaction never confirmed'
+      case 'claim_failed':
+        return 'Claim transaction reverted'
+      case 'stuck':
+        return 'Not received on the destination chain long after it was sent'
+      case 'emergency_exit':
+        return 'Emergency hatch open, exit on the source chain'
       default:
         return 'Unknown status'
     }
@@ -402,15 +1084,52 @@ class BridgeStateService {
         return 40
       case 'sent_to_remote':
         return 60
+      case 'ready_to_execute':
+        return 70
       case 'ready_to_claim':
         return 80
       case 'claimed':
         return 100
+      case 'stuck':
+        return 60
+      case 'claim_failed':
+        return 80
       default:
         return 0
     }
   }
 
+  /**
+   * Drop the caches and throttles a sucker event makes stale, so the next check reads fresh state.
+   * Claims need nothing here: claimed leaves are reconciled from the chain on every check.
+   */
+  handleSuckerEvent(event: SuckerEvent): void {
+    const prefix = `${event.chainId}-${event.suckerAddress.toLowerCase()}-`
+    const forget = (map: Map<string, unknown>) => {
+      for (const key of map.keys()) {
+        if (key.toLowerCase().startsWith(prefix)) {
+          map.delete(key)
+        }
+      }
+    }
+
+    switch (event.eventName) {
+      case 'InsertToOutboxTree':
+        forget(this.outboxCache)
+        break
+      case 'RootToRemote':
+        forget(this.outboxCache)
+        forget(this.lastRootIndex)
+        break
+      case 'NewInboxTreeRoot':
+        // Inbox groups are keyed by the source token, so drop every group on this sucker
+        forget(this.lastInboxCheck)
+        // Proofs for the new root can be fetched now
+        this.lastBackendCheck = 0
+        break
+    }
+  }
+
   /**
    * Manual method to force backend check (for debugging)
    */
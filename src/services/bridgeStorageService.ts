@@ -1,10 +1,21 @@
-import { type Address } from 'viem'
-import { type TransactionStatus, type JBLeaf, type JBClaim, type SuckerBridgeInfo } from '@/types/bridge'
+import { type Address, formatUnits } from 'viem'
+import { type TransactionStatus, type TransactionTransition, type JBLeaf, type JBClaim, type SuckerBridgeInfo, type OpWithdrawalState, type CcipMessageState } from '@/types/bridge'
+import {
+  LEGACY_STORAGE_KEY,
+  type TransactionIndex,
+  getAllTransactionRecords,
+  getTransactionRecordsByIndex,
+  putTransactionRecords,
+  deleteTransactionRecords,
+  clearTransactionRecords
+} from './bridgeDatabase'
+import { canTransition } from '@/utils/transactionStateMachine'
 
 export interface StoredBridgeTransaction {
   // Transaction identifiers
   id: string // Unique identifier for this bridge transaction
-  transactionHash: string
+  transactionHash: string // Empty while a permit + prepare() batch has no receipt yet
+  prepareCallsId?: string // wallet_sendCalls ID of the permit + prepare() batch, to resume it from
   
   // Project and chain info
   projectId: string
@@ -31,18 +42,99 @@ export interface StoredBridgeTransaction {
   // Claim data from backend (populated when ready_to_claim)
   claimProof: string[] | null
   claimLeaf: JBLeaf | null
+  claimToken?: Address // Destination-chain token the claim is made with, which can differ from token
   
   // Metadata
   timestamp: number
   status: TransactionStatus
+  transitions?: TransactionTransition[] // Status changes in order, written by transitionTransaction
+  sentToRemoteAt?: number // When the outbox root containing this leaf was first seen as sent
+  toRemoteTransactionHash?: string // The toRemote() transaction that sent this leaf's root
+  toRemoteTimestamp?: number // Block time of that toRemote() transaction
+  toRemoteCaller?: Address // Who sent it
+  sentNonce?: string // Outbox nonce of the root that carried this leaf (from RootToRemote)
+  arrivedAt?: number // When the destination inbox reached sentNonce, i.e. proofs can exist
+  arrivalTransactionHash?: string // The destination transaction that emitted NewInboxTreeRoot
+  opWithdrawal?: OpWithdrawalState // Prove/finalize progress of an OP Stack L2 -> L1 withdrawal
+  ccipMessage?: CcipMessageState // Delivery progress of the CCIP message carrying this leaf's root
+  claimVerified?: boolean // The destination sucker has marked this leaf executed
 }
 
-const STORAGE_KEY = 'juicerkle-bridge-transactions'
+// Fields any writer may change; status only moves through transitionTransaction
+type TransactionChanges = Partial<Omit<StoredBridgeTransaction, 'id' | 'status' | 'transitions'>>
+
+// Broadcast channel used to tell other tabs the store changed
+const SYNC_CHANNEL = 'juicerkle-bridge-transactions'
 
 class BridgeStorageService {
-  private getStoredTransactions(): StoredBridgeTransaction[] {
+  // In-memory copy of the store so reads stay synchronous; writes go through per record
+  private transactions: StoredBridgeTransaction[] = []
+  private readyPromise: Promise<void> | null = null
+  private useLegacyStorage = false
+  private channel: BroadcastChannel | null = null
+  // Writes and deletes from this tab that IndexedDB hasn't committed yet, so reloads don't undo them
+  private pendingWrites = new Map<string, StoredBridgeTransaction>()
+  private pendingDeletes = new Set<string>()
+
+  /**
+   * Resolves once transactions have been loaded from IndexedDB (or the localStorage fallback)
+   */
+  ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.initialize()
+    }
+    return this.readyPromise
+  }
+
+  private async initialize(): Promise<void> {
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    let loaded: StoredBridgeTransaction[]
     try {
-      const stored = localStorage.getItem(STORAGE_KEY)
+      loaded = await getAllTransactionRecords()
+
+      if (typeof BroadcastChannel !== 'undefined') {
+        this.channel = new BroadcastChannel(SYNC_CHANNEL)
+        this.channel.onmessage = () => {
+          this.reloadFromDatabase()
+        }
+      }
+    } catch (error) {
+      console.error('IndexedDB unavailable, falling back to localStorage for bridge transactions:', error)
+      this.useLegacyStorage = true
+      loaded = this.loadLegacyTransactions()
+    }
+
+    // Keep anything written while we were loading
+    const loadedIds = new Set(loaded.map(tx => tx.id))
+    this.transactions = [...loaded, ...this.transactions.filter(tx => !loadedIds.has(tx.id))]
+
+    this.notify()
+  }
+
+  private async reloadFromDatabase(): Promise<void> {
+    try {
+      const loaded = (await getAllTransactionRecords()).filter(tx => !this.pendingDeletes.has(tx.id))
+
+      // This tab's uncommitted writes are newer than the snapshot
+      const loadedIds = new Set(loaded.map(tx => tx.id))
+      this.transactions = [
+        ...loaded.map(tx => this.pendingWrites.get(tx.id) ?? tx),
+        ...Array.from(this.pendingWrites.values()).filter(tx => !loadedIds.has(tx.id))
+      ]
+      this.notify()
+      // Let listeners that only care about changes from other tabs re-check
+      window.dispatchEvent(new CustomEvent('bridge-transactions-synced'))
+    } catch (error) {
+      console.error('Failed to reload bridge transactions:', error)
+    }
+  }
+
+  private loadLegacyTransactions(): StoredBridgeTransaction[] {
+    try {
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY)
       return stored ? JSON.parse(stored) : []
     } catch (error) {
       console.error('Failed to load stored bridge transactions:', error)
@@ -50,29 +142,214 @@ class BridgeStorageService {
     }
   }
 
-  private saveTransactions(transactions: StoredBridgeTransaction[]): void {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
-      // Dispatch custom event to notify components in the same tab
-      window.dispatchEvent(new CustomEvent('bridge-transactions-updated'))
-    } catch (error) {
-      console.error('Failed to save bridge transactions:', error)
+  private notify(): void {
+    // Dispatch custom event to notify components in the same tab
+    window.dispatchEvent(new CustomEvent('bridge-transactions-updated'))
+  }
+
+  private getStoredTransactions(): StoredBridgeTransaction[] {
+    // Start loading on first access; callers get the cached list until then
+    this.ready()
+    return [...this.transactions]
+  }
+
+  /**
+   * Persist only the transactions that changed
+   */
+  private saveTransactions(changed: StoredBridgeTransaction[]): void {
+    this.notify()
+
+    if (this.useLegacyStorage) {
+      try {
+        localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(this.transactions))
+      } catch (error) {
+        console.error('Failed to save bridge transactions:', error)
+      }
+      return
+    }
+
+    changed.forEach(tx => this.pendingWrites.set(tx.id, tx))
+    putTransactionRecords(changed)
+      .then(() => this.channel?.postMessage('updated'))
+      .catch(error => console.error('Failed to save bridge transactions:', error))
+      .finally(() => changed.forEach(tx => {
+        // A later write of the same record is still pending
+        if (this.pendingWrites.get(tx.id) === tx) {
+          this.pendingWrites.delete(tx.id)
+        }
+      }))
+  }
+
+  private removeTransactions(ids: string[]): void {
+    const removed = new Set(ids)
+    this.transactions = this.transactions.filter(tx => !removed.has(tx.id))
+    this.notify()
+
+    if (this.useLegacyStorage) {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(this.transactions))
+      return
+    }
+
+    ids.forEach(id => {
+      this.pendingWrites.delete(id)
+      this.pendingDeletes.add(id)
+    })
+    deleteTransactionRecords(ids)
+      .then(() => this.channel?.postMessage('updated'))
+      .catch(error => console.error('Failed to delete bridge transactions:', error))
+      .finally(() => ids.forEach(id => this.pendingDeletes.delete(id)))
+  }
+
+  /**
+   * Replace a transaction with an updated copy and persist it
+   */
+  private replaceTransaction(id: string, update: (transaction: StoredBridgeTransaction) => StoredBridgeTransaction): StoredBridgeTransaction | null {
+    const index = this.transactions.findIndex(tx => tx.id === id)
+    if (index === -1) {
+      return null
+    }
+
+    const updated = update(this.transactions[index])
+    this.transactions = [...this.transactions]
+    this.transactions[index] = updated
+    this.saveTransactions([updated])
+    return updated
+  }
+
+  private updateTransaction(id: string, changes: TransactionChanges): StoredBridgeTransaction | null {
+    return this.replaceTransaction(id, tx => ({ ...tx, ...changes }))
+  }
+
+  /**
+   * Append a status change to a transaction's history, unless it stays where it is
+   */
+  private withTransition(transaction: StoredBridgeTransaction, status: TransactionStatus, at: number): TransactionTransition[] | undefined {
+    if (transaction.status === status) {
+      return transaction.transitions
     }
+    return [...(transaction.transitions ?? []), { from: transaction.status, to: status, at }]
   }
 
+  /**
+   * Store a new transaction, or replace one with the same ID if its status may move to the new one
+   */
   storeBridgeTransaction(transaction: StoredBridgeTransaction): void {
-    const transactions = this.getStoredTransactions()
-    transactions.push(transaction)
-    this.saveTransactions(transactions)
+    const existing = this.transactions.find(tx => tx.id === transaction.id)
+    if (existing && !canTransition(existing.status, transaction.status)) {
+      console.warn(`Rejected illegal transition of transaction ${transaction.id} from ${existing.status} to ${transaction.status}`)
+      return
+    }
+
+    const now = Date.now()
+    const stored = {
+      ...transaction,
+      transitions: existing
+        ? this.withTransition(existing, transaction.status, now)
+        : [{ from: null, to: transaction.status, at: now }]
+    }
+    this.transactions = [...this.transactions.filter(tx => tx.id !== transaction.id), stored]
+    this.saveTransactions([stored])
   }
 
-  updateTransactionStatus(id: string, status: TransactionStatus): void {
-    const transactions = this.getStoredTransactions()
-    const transaction = transactions.find(tx => tx.id === id)
-    if (transaction) {
-      transaction.status = status
-      this.saveTransactions(transactions)
+  /**
+   * Move a transaction to a new status, along with any fields that change with it. The only way statuses change:
+   * transitions the state machine doesn't allow are rejected and logged. Returns whether the transaction is now in that status.
+   */
+  transitionTransaction(id: string, status: TransactionStatus, changes: TransactionChanges = {}): boolean {
+    const existing = this.transactions.find(tx => tx.id === id)
+    if (!existing) {
+      console.warn(`Transaction ${id} not found when moving it to ${status}`)
+      return false
+    }
+    if (!canTransition(existing.status, status)) {
+      console.warn(`Rejected illegal transition of transaction ${id} from ${existing.status} to ${status}`)
+      return false
+    }
+
+    const now = Date.now()
+    this.replaceTransaction(id, tx => ({
+      ...tx,
+      ...changes,
+      status,
+      // Finalization countdowns run from when the root was first seen as sent
+      sentToRemoteAt: tx.sentToRemoteAt ?? (status === 'sent_to_remote' ? now : undefined),
+      transitions: this.withTransition(tx, status, now)
+    }))
+    return true
+  }
+
+  updatePrepareTransactionHash(id: string, transactionHash: string): void {
+    this.updateTransaction(id, { transactionHash })
+  }
+
+  updateTransactionToRemoteHash(id: string, toRemoteTransactionHash: string): void {
+    this.updateTransaction(id, { toRemoteTransactionHash })
+  }
+
+  /**
+   * Record the RootToRemote event that sent a transaction's leaf
+   */
+  updateTransactionSentRoot(id: string, sentRoot: { nonce: string, transactionHash: string, timestamp: number, caller: Address }): void {
+    this.updateTransaction(id, {
+      sentNonce: sentRoot.nonce,
+      toRemoteTransactionHash: sentRoot.transactionHash,
+      toRemoteTimestamp: sentRoot.timestamp,
+      toRemoteCaller: sentRoot.caller
+    })
+  }
+
+  updateTransactionArrival(id: string, arrivedAt: number, arrivalTransactionHash?: string): void {
+    this.updateTransaction(id, { arrivedAt, arrivalTransactionHash })
+  }
+
+  updateTransactionOpWithdrawal(id: string, opWithdrawal: OpWithdrawalState): void {
+    this.updateTransaction(id, { opWithdrawal })
+  }
+
+  updateTransactionCcipMessage(id: string, ccipMessage: CcipMessageState): void {
+    this.updateTransaction(id, { ccipMessage })
+  }
+
+  /**
+   * Record what the destination sucker says about a leaf: executed leaves are claimed for good,
+   * and a "claimed" leaf that isn't executed goes back to ready_to_claim
+   */
+  updateTransactionClaimExecution(id: string, executed: boolean): void {
+    if (executed) {
+      this.transitionTransaction(id, 'claimed', { claimVerified: true })
+      return
+    }
+
+    const existing = this.transactions.find(tx => tx.id === id)
+    if (existing?.status === 'claimed') {
+      this.transitionTransaction(id, 'ready_to_claim', { claimVerified: false })
+      return
     }
+    this.updateTransaction(id, { claimVerified: false })
+  }
+
+  /**
+   * Query transactions through the store's indexes (status, chain, sucker, beneficiary, hash)
+   */
+  async queryTransactions(index: TransactionIndex, value: string | number): Promise<StoredBridgeTransaction[]> {
+    await this.ready()
+
+    // Address indexes are stored lowercased
+    const key = typeof value === 'string' && (index === 'suckerKey' || index === 'beneficiaryKey')
+      ? value.toLowerCase()
+      : value
+
+    if (this.useLegacyStorage) {
+      return this.transactions.filter(tx => {
+        switch (index) {
+          case 'suckerKey': return tx.suckerAddress.toLowerCase() === key
+          case 'beneficiaryKey': return tx.beneficiary.toLowerCase() === key
+          default: return tx[index] === key
+        }
+      })
+    }
+
+    return getTransactionRecordsByIndex(index, key)
   }
 
   // Note: updateTransactionWithEventData removed - we now store complete transactions only when confirmed
@@ -97,8 +374,29 @@ class BridgeStorageService {
     return transactions.find(tx => tx.transactionHash === hash) || null
   }
 
+  /**
+   * Remove a transaction the user dismissed
+   */
+  removeTransaction(id: string): void {
+    this.removeTransactions([id])
+  }
+
   clearAllTransactions(): void {
-    localStorage.removeItem(STORAGE_KEY)
+    const ids = this.transactions.map(tx => tx.id)
+    this.transactions = []
+    this.notify()
+
+    if (this.useLegacyStorage) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY)
+      return
+    }
+
+    this.pendingWrites.clear()
+    ids.forEach(id => this.pendingDeletes.add(id))
+    clearTransactionRecords()
+      .then(() => this.channel?.postMessage('updated'))
+      .catch(error => console.error('Failed to clear bridge transactions:', error))
+      .finally(() => ids.forEach(id => this.pendingDeletes.delete(id)))
   }
 
   generateTransactionId(): string {
@@ -119,11 +417,12 @@ class BridgeStorageService {
       }
     })
     
-    // Then, deduplicate by transaction hash (in case IDs differ)
+    // Then, deduplicate by transaction hash (in case IDs differ); records without a hash yet only match themselves
     Array.from(uniqueById.values()).forEach(tx => {
-      const existing = uniqueByHash.get(tx.transactionHash)
+      const key = tx.transactionHash || tx.id
+      const existing = uniqueByHash.get(key)
       if (!existing || tx.timestamp > existing.timestamp) {
-        uniqueByHash.set(tx.transactionHash, tx)
+        uniqueByHash.set(key, tx)
       }
     })
     
@@ -136,7 +435,8 @@ class BridgeStorageService {
         afterIdDedup: uniqueById.size,
         afterHashDedup: deduplicatedTransactions.length
       })
-      this.saveTransactions(deduplicatedTransactions)
+      const kept = new Set(deduplicatedTransactions)
+      this.removeTransactions(transactions.filter(tx => !kept.has(tx)).map(tx => tx.id))
     }
   }
 
@@ -177,9 +477,12 @@ class BridgeStorageService {
   }
 
   // Get transactions that have been sent to remote and need claim data
+  // (ready_to_execute ones become claimable once their L1 execution lands)
   getTransactionsNeedingClaimData(): StoredBridgeTransaction[] {
     return this.getStoredTransactions().filter(
-      tx => tx.status === 'sent_to_remote' && (tx.claimProof === null || tx.claimProof === undefined)
+      tx => (tx.status === 'sent_to_remote' || tx.status === 'ready_to_execute' || tx.status === 'stuck') && (tx.claimProof === null || tx.claimProof === undefined) &&
+        // No proof can exist before the root reaches the destination inbox; without a known nonce, keep asking
+        (!tx.sentNonce || !!tx.arrivedAt)
     )
   }
 
@@ -222,20 +525,20 @@ class BridgeStorageService {
 
   // Update transaction with claim data from backend
   updateTransactionWithClaimData(transactionId: string, claimData: JBClaim): void {
-    const transactions = this.getStoredTransactions()
-    const transaction = transactions.find(tx => tx.id === transactionId)
+    // A failed claim keeps its status so it still reads as failed; the retry uses the refreshed proof
+    const existing = this.transactions.find(tx => tx.id === transactionId)
+    const status = existing?.status === 'claim_failed' ? 'claim_failed' : 'ready_to_claim'
+
+    const moved = this.transitionTransaction(transactionId, status, {
+      claimProof: claimData.Proof,
+      claimLeaf: claimData.Leaf,
+      claimToken: claimData.Token as Address
+    })
     
-    if (!transaction) {
-      console.warn(`Transaction ${transactionId} not found when updating with claim data`)
+    if (!moved) {
       return
     }
-
-    transaction.claimProof = claimData.Proof
-    transaction.claimLeaf = claimData.Leaf
-    transaction.status = 'ready_to_claim'
-    
-    this.saveTransactions(transactions)
-    console.log(`Updated transaction ${transactionId} with claim data and set status to ready_to_claim`)
+    console.log(`Updated transaction ${transactionId} with claim data and set status to ${status}`)
   }
 
   // Get transactions ready to claim (have proof data)
@@ -250,18 +553,22 @@ class BridgeStorageService {
     claimData: JBClaim,
     chainId: number,
     suckerAddress: Address,
-    projectId: string
+    projectId: string,
+    sourceChainId: number,
+    token: Address
   ): StoredBridgeTransaction {
     const transaction: StoredBridgeTransaction = {
       id: this.generateTransactionId(),
       transactionHash: '', // Unknown - this came from backend
       projectId,
-      sourceChainId: 0, // Unknown
+      sourceChainId,
       targetChainId: chainId,
       suckerAddress,
       beneficiary: claimData.Leaf.Beneficiary as Address,
-      token: claimData.Token as Address,
-      projectTokenCount: claimData.Leaf.ProjectTokenCount,
+      // The claim's token is the one paid out on this chain, the source side keeps its own
+      token,
+      // Stored counts are human-readable; project tokens always have 18 decimals
+      projectTokenCount: formatUnits(BigInt(claimData.Leaf.ProjectTokenCount), 18),
       terminalTokenAmount: claimData.Leaf.TerminalTokenAmount,
       minTokensReclaimed: '0', // Unknown
       hashed: '', // Unknown
@@ -270,13 +577,12 @@ class BridgeStorageService {
       caller: '0x0000000000000000000000000000000000000000',
       claimProof: claimData.Proof,
       claimLeaf: claimData.Leaf,
+      claimToken: claimData.Token as Address,
       timestamp: Date.now(),
       status: 'ready_to_claim'
     }
 
-    const transactions = this.getStoredTransactions()
-    transactions.push(transaction)
-    this.saveTransactions(transactions)
+    this.storeBridgeTransaction(transaction)
     
     console.log(`Created new transaction ${transaction.id} from backend claim data`)
     return transaction
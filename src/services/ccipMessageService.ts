@@ -0,0 +1,500 @@
+import { type Address, type Hex, decodeEventLog, encodeAbiParameters, keccak256, pad } from 'viem'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+import { LOG_CHUNK_SIZE, MAX_LOG_CHUNKS } from '@/utils/logUtils'
+import { type CcipMessageStatus } from '@/types/bridge'
+import { bridgeStorageService, type StoredBridgeTransaction } from './bridgeStorageService'
+import { suckerService } from './suckerService'
+
+// Internal.EVM2EVMMessage (CCIP 1.5 lanes)
+const EVM2EVM_MESSAGE_COMPONENTS = [
+  { name: 'sourceChainSelector', type: 'uint64' },
+  { name: 'sender', type: 'address' },
+  { name: 'receiver', type: 'address' },
+  { name: 'sequenceNumber', type: 'uint64' },
+  { name: 'gasLimit', type: 'uint256' },
+  { name: 'strict', type: 'bool' },
+  { name: 'nonce', type: 'uint64' },
+  { name: 'feeToken', type: 'address' },
+  { name: 'feeTokenAmount', type: 'uint256' },
+  { name: 'data', type: 'bytes' },
+  {
+    name: 'tokenAmounts',
+    type: 'tuple[]',
+    components: [
+      { name: 'token', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ]
+  },
+  { name: 'sourceTokenData', type: 'bytes[]' },
+  { name: 'messageId', type: 'bytes32' }
+] as const
+
+const CCIP_SEND_REQUESTED_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, name: 'message', type: 'tuple', components: EVM2EVM_MESSAGE_COMPONENTS }],
+    name: 'CCIPSendRequested',
+    type: 'event'
+  }
+] as const
+
+const REPORT_ACCEPTED_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        name: 'report',
+        type: 'tuple',
+        components: [
+          {
+            name: 'priceUpdates',
+            type: 'tuple',
+            components: [
+              {
+                name: 'tokenPriceUpdates',
+                type: 'tuple[]',
+                components: [
+                  { name: 'sourceToken', type: 'address' },
+                  { name: 'usdPerToken', type: 'uint224' }
+                ]
+              },
+              {
+                name: 'gasPriceUpdates',
+                type: 'tuple[]',
+                components: [
+                  { name: 'destChainSelector', type: 'uint64' },
+                  { name: 'usdPerUnitGas', type: 'uint224' }
+                ]
+              }
+            ]
+          },
+          {
+            name: 'interval',
+            type: 'tuple',
+            components: [
+              { name: 'min', type: 'uint64' },
+              { name: 'max', type: 'uint64' }
+            ]
+          },
+          { name: 'merkleRoot', type: 'bytes32' }
+        ]
+      }
+    ],
+    name: 'ReportAccepted',
+    type: 'event'
+  }
+] as const
+
+const CCIP_SUCKER_ABI = [
+  {
+    name: 'CCIP_ROUTER',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }]
+  }
+] as const
+
+const CCIP_ROUTER_ABI = [
+  {
+    name: 'getOffRamps',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple[]',
+        components: [
+          { name: 'sourceChainSelector', type: 'uint64' },
+          { name: 'offRamp', type: 'address' }
+        ]
+      }
+    ]
+  }
+] as const
+
+const OFF_RAMP_ABI = [
+  {
+    name: 'getStaticConfig',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'commitStore', type: 'address' },
+          { name: 'chainSelector', type: 'uint64' },
+          { name: 'sourceChainSelector', type: 'uint64' },
+          { name: 'onRamp', type: 'address' },
+          { name: 'prevOffRamp', type: 'address' },
+          { name: 'rmnProxy', type: 'address' },
+          { name: 'tokenAdminRegistry', type: 'address' }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'getExecutionState',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'sequenceNumber', type: 'uint64' }],
+    outputs: [{ name: '', type: 'uint8' }]
+  },
+  {
+    name: 'manuallyExecute',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      {
+        name: 'report',
+        type: 'tuple',
+        components: [
+          { name: 'messages', type: 'tuple[]', components: EVM2EVM_MESSAGE_COMPONENTS },
+          { name: 'offchainTokenData', type: 'bytes[][]' },
+          { name: 'proofs', type: 'bytes32[]' },
+          { name: 'proofFlagBits', type: 'uint256' }
+        ]
+      },
+      {
+        name: 'gasLimitOverrides',
+        type: 'tuple[]',
+        components: [
+          { name: 'receiverExecutionGasLimit', type: 'uint256' },
+          { name: 'tokenGasOverrides', type: 'uint32[]' }
+        ]
+      }
+    ],
+    outputs: []
+  }
+] as const
+
+const COMMIT_STORE_ABI = [
+  {
+    name: 'getExpectedNextSequenceNumber',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint64' }]
+  }
+] as const
+
+// Internal.MessageExecutionState
+const EXECUTION_STATE_IN_PROGRESS = 1
+const EXECUTION_STATE_SUCCESS = 2
+const EXECUTION_STATE_FAILURE = 3
+
+// MerkleMultiProof.INTERNAL_DOMAIN_SEPARATOR
+const INTERNAL_DOMAIN_SEPARATOR = pad('0x01')
+const ZERO_HASH = pad('0x00')
+
+type Evm2EvmMessage = {
+  sourceChainSelector: bigint
+  sender: Address
+  receiver: Address
+  sequenceNumber: bigint
+  gasLimit: bigint
+  strict: boolean
+  nonce: bigint
+  feeToken: Address
+  feeTokenAmount: bigint
+  data: Hex
+  tokenAmounts: readonly { token: Address, amount: bigint }[]
+  sourceTokenData: readonly Hex[]
+  messageId: Hex
+}
+
+export interface CcipSentMessage {
+  message: Evm2EvmMessage
+  onRamp: Address
+  blockNumber: bigint
+}
+
+interface CcipLane {
+  offRamp: Address
+  commitStore: Address
+}
+
+class CcipMessageService {
+  private messageCache = new Map<string, CcipSentMessage>()
+  private laneCache = new Map<string, CcipLane>()
+
+  /**
+   * Decode the CCIP message the sucker sent in the toRemote() call carrying this transaction
+   */
+  async getSentMessage(transaction: StoredBridgeTransaction): Promise<CcipSentMessage | null> {
+    const cached = this.messageCache.get(transaction.id)
+    if (cached) {
+      return cached
+    }
+
+    const receipt = await suckerService.getToRemoteReceipt(transaction)
+    if (!receipt) {
+      return null
+    }
+    if (!transaction.toRemoteTransactionHash) {
+      bridgeStorageService.updateTransactionToRemoteHash(transaction.id, receipt.transactionHash)
+    }
+
+    for (const log of receipt.logs) {
+      try {
+        const decoded = decodeEventLog({
+          abi: CCIP_SEND_REQUESTED_EVENT_ABI,
+          data: log.data,
+          topics: log.topics
+        })
+
+        // Only the sucker's own message to its peer
+        if (decoded.args.message.sender.toLowerCase() !== transaction.suckerAddress.toLowerCase()) {
+          continue
+        }
+
+        const sent = { message: decoded.args.message, onRamp: log.address, blockNumber: receipt.blockNumber }
+        this.messageCache.set(transaction.id, sent)
+        return sent
+      } catch {
+        // Not a CCIPSendRequested log
+        continue
+      }
+    }
+
+    console.warn(`No CCIPSendRequested log from sucker ${transaction.suckerAddress} in ${receipt.transactionHash}`)
+    return null
+  }
+
+  /**
+   * Find the OffRamp and CommitStore serving a message's lane, through the peer sucker's router
+   */
+  private async getLane(destinationChainId: number, sent: CcipSentMessage): Promise<CcipLane> {
+    const cacheKey = `${destinationChainId}-${sent.onRamp.toLowerCase()}`
+    const cached = this.laneCache.get(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    const client = getSharedPublicClient(destinationChainId)
+    const router = await client.readContract({ address: sent.message.receiver, abi: CCIP_SUCKER_ABI, functionName: 'CCIP_ROUTER' })
+    const offRamps = await client.readContract({ address: router, abi: CCIP_ROUTER_ABI, functionName: 'getOffRamps' })
+
+    // A lane can have retired OffRamps registered alongside the current one
+    for (const { sourceChainSelector, offRamp } of offRamps) {
+      if (sourceChainSelector !== sent.message.sourceChainSelector) {
+        continue
+      }
+
+      const config = await client.readContract({ address: offRamp, abi: OFF_RAMP_ABI, functionName: 'getStaticConfig' })
+      if (config.onRamp.toLowerCase() === sent.onRamp.toLowerCase()) {
+        const lane = { offRamp, commitStore: config.commitStore }
+        this.laneCache.set(cacheKey, lane)
+        return lane
+      }
+    }
+
+    throw new Error(`No OffRamp on chain ${destinationChainId} for OnRamp ${sent.onRamp}`)
+  }
+
+  /**
+   * Report whether a transaction's CCIP message is waiting to be committed, committed, executed, or failed
+   */
+  async getMessageState(transaction: StoredBridgeTransaction): Promise<{ sent: CcipSentMessage, status: CcipMessageStatus } | null> {
+    const sent = await this.getSentMessage(transaction)
+    if (!sent) {
+      return null
+    }
+
+    const client = getSharedPublicClient(transaction.targetChainId)
+    const lane = await this.getLane(transaction.targetChainId, sent)
+
+    const executionState = await client.readContract({
+      address: lane.offRamp,
+      abi: OFF_RAMP_ABI,
+      functionName: 'getExecutionState',
+      args: [sent.message.sequenceNumber]
+    })
+    if (executionState === EXECUTION_STATE_SUCCESS) {
+      return { sent, status: 'executed' }
+    }
+    if (executionState === EXECUTION_STATE_FAILURE) {
+      return { sent, status: 'failed' }
+    }
+    if (executionState === EXECUTION_STATE_IN_PROGRESS) {
+      return { sent, status: 'committed' }
+    }
+
+    const nextSequenceNumber = await client.readContract({
+      address: lane.commitStore,
+      abi: COMMIT_STORE_ABI,
+      functionName: 'getExpectedNextSequenceNumber'
+    })
+
+    return { sent, status: nextSequenceNumber > sent.message.sequenceNumber ? 'committed' : 'sent' }
+  }
+
+  /**
+   * Find the commit report whose interval covers a sequence number, walking back from the head
+   */
+  private async findCommitReport(destinationChainId: number, commitStore: Address, sequenceNumber: bigint) {
+    const client = getSharedPublicClient(destinationChainId)
+    const latestBlock = await client.getBlockNumber()
+
+    for (let chunk = 0, toBlock = latestBlock; chunk < MAX_LOG_CHUNKS && toBlock >= BigInt(0); chunk++) {
+      const fromBlock = toBlock >= LOG_CHUNK_SIZE ? toBlock - LOG_CHUNK_SIZE + BigInt(1) : BigInt(0)
+
+      const logs = await client.getLogs({
+        address: commitStore,
+        event: REPORT_ACCEPTED_EVENT_ABI[0],
+        fromBlock,
+        toBlock
+      })
+
+      for (const log of [...logs].reverse()) {
+        const { interval, merkleRoot } = log.args.report!
+        if (interval.min <= sequenceNumber && sequenceNumber <= interval.max) {
+          return { interval, merkleRoot }
+        }
+        // Reports are in sequence order, so anything older is before our message
+        if (interval.max < sequenceNumber) {
+          return null
+        }
+      }
+
+      if (fromBlock === BigInt(0)) {
+        break
+      }
+      toBlock = fromBlock - BigInt(1)
+    }
+
+    return null
+  }
+
+  /**
+   * Collect the OnRamp messages with sequence numbers in [min, max], searching out from a known block
+   */
+  private async getIntervalMessages(sourceChainId: number, sent: CcipSentMessage, min: bigint, max: bigint): Promise<Evm2EvmMessage[]> {
+    const client = getSharedPublicClient(sourceChainId)
+    const latestBlock = await client.getBlockNumber()
+    const messages = new Map<bigint, Evm2EvmMessage>()
+
+    const collect = async (fromBlock: bigint, toBlock: bigint) => {
+      const logs = await client.getLogs({
+        address: sent.onRamp,
+        event: CCIP_SEND_REQUESTED_EVENT_ABI[0],
+        fromBlock,
+        toBlock
+      })
+      for (const log of logs) {
+        const message = log.args.message!
+        if (message.sequenceNumber >= min && message.sequenceNumber <= max) {
+          messages.set(message.sequenceNumber, message)
+        }
+      }
+    }
+
+    // Earlier messages in the report
+    for (let chunk = 0, toBlock = sent.blockNumber; chunk < MAX_LOG_CHUNKS && !messages.has(min); chunk++) {
+      const fromBlock = toBlock >= LOG_CHUNK_SIZE ? toBlock - LOG_CHUNK_SIZE + BigInt(1) : BigInt(0)
+      await collect(fromBlock, toBlock)
+      if (fromBlock === BigInt(0)) {
+        break
+      }
+      toBlock = fromBlock - BigInt(1)
+    }
+
+    // Later messages in the report
+    for (let chunk = 0, fromBlock = sent.blockNumber + BigInt(1); chunk < MAX_LOG_CHUNKS && !messages.has(max) && fromBlock <= latestBlock; chunk++) {
+      const toBlock = fromBlock + LOG_CHUNK_SIZE - BigInt(1) < latestBlock ? fromBlock + LOG_CHUNK_SIZE - BigInt(1) : latestBlock
+      await collect(fromBlock, toBlock)
+      fromBlock = toBlock + BigInt(1)
+    }
+
+    const ordered: Evm2EvmMessage[] = []
+    for (let sequenceNumber = min; sequenceNumber <= max; sequenceNumber++) {
+      const message = messages.get(sequenceNumber)
+      if (!message) {
+        throw new Error(`Missing CCIP message ${sequenceNumber} on OnRamp ${sent.onRamp}`)
+      }
+      ordered.push(message)
+    }
+    return ordered
+  }
+
+  /**
+   * Build the proof of one leaf in a CCIP commit tree. Leaves are the message IDs; odd layers are
+   * padded with a zero hash and pairs are hashed in sorted order, as MerkleMultiProof expects.
+   */
+  private buildProof(leaves: Hex[], leafIndex: number): { root: Hex, proof: Hex[] } {
+    const hashPair = (a: Hex, b: Hex) => keccak256(encodeAbiParameters(
+      [{ type: 'bytes32' }, { type: 'bytes32' }, { type: 'bytes32' }],
+      BigInt(a) < BigInt(b) ? [INTERNAL_DOMAIN_SEPARATOR, a, b] : [INTERNAL_DOMAIN_SEPARATOR, b, a]
+    ))
+
+    const proof: Hex[] = []
+    let layer = leaves
+    let index = leafIndex
+
+    while (layer.length > 1) {
+      if (layer.length % 2 !== 0) {
+        layer = [...layer, ZERO_HASH]
+      }
+      proof.push(layer[index ^ 1])
+
+      const next: Hex[] = []
+      for (let i = 0; i < layer.length; i += 2) {
+        next.push(hashPair(layer[i], layer[i + 1]))
+      }
+      layer = next
+      index = Math.floor(index / 2)
+    }
+
+    return { root: layer[0], proof }
+  }
+
+  /**
+   * Build the OffRamp.manuallyExecute() call for a message whose automatic execution failed
+   */
+  async getManualExecutionData(transaction: StoredBridgeTransaction) {
+    const state = await this.getMessageState(transaction)
+    if (!state || state.status !== 'failed') {
+      throw new Error(`CCIP message for transaction ${transaction.id} doesn't need manual execution (${state?.status ?? 'not found'})`)
+    }
+
+    const { sent } = state
+    const lane = await this.getLane(transaction.targetChainId, sent)
+
+    const report = await this.findCommitReport(transaction.targetChainId, lane.commitStore, sent.message.sequenceNumber)
+    if (!report) {
+      throw new Error(`No commit report on chain ${transaction.targetChainId} covers CCIP message ${sent.message.messageId}`)
+    }
+
+    const messages = await this.getIntervalMessages(transaction.sourceChainId, sent, report.interval.min, report.interval.max)
+    const { root, proof } = this.buildProof(
+      messages.map(message => message.messageId),
+      Number(sent.message.sequenceNumber - report.interval.min)
+    )
+    if (root.toLowerCase() !== report.merkleRoot.toLowerCase()) {
+      throw new Error(`Rebuilt commit root ${root} doesn't match the committed root ${report.merkleRoot}`)
+    }
+
+    return {
+      address: lane.offRamp,
+      abi: OFF_RAMP_ABI,
+      functionName: 'manuallyExecute' as const,
+      args: [
+        {
+          messages: [sent.message],
+          // No attested tokens (e.g. USDC) go through suckers, so there's no offchain token data
+          offchainTokenData: [sent.message.tokenAmounts.map(() => '0x' as Hex)],
+          proofs: proof,
+          proofFlagBits: BigInt(0)
+        },
+        // Zero keeps the gas limits from the original message
+        [{ receiverExecutionGasLimit: BigInt(0), tokenGasOverrides: sent.message.tokenAmounts.map(() => 0) }]
+      ] as const
+    }
+  }
+}
+
+export const ccipMessageService = new CcipMessageService()
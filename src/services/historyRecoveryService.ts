@@ -0,0 +1,190 @@
+import { type Address, formatUnits } from 'viem'
+import { suckerService } from './suckerService'
+import { suckerDiscoveryService } from './suckerDiscoveryService'
+import { jbDirectoryService } from './jbDirectoryService'
+import { bridgeStorageService, type StoredBridgeTransaction } from './bridgeStorageService'
+import { type SuckerBridgeInfo } from '@/types/bridge'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+
+// Juicebox project tokens always use 18 decimals
+const PROJECT_TOKEN_DECIMALS = 18
+
+export interface RecoveryProgress {
+  scannedSuckers: number
+  totalSuckers: number
+  recovered: number
+}
+
+export interface RecoveryResult {
+  recovered: StoredBridgeTransaction[]
+  failedSuckers: string[]
+}
+
+/**
+ * A leaf is identified by where it was inserted, the prepare hash alone doesn't tell two leaves of one batch apart
+ */
+function getLeafKey(sourceChainId: number, suckerAddress: Address, token: Address, index: string): string {
+  return `${sourceChainId}-${suckerAddress.toLowerCase()}-${token.toLowerCase()}-${index}`
+}
+
+interface SuckerSide {
+  chainId: number
+  address: Address
+  projectId: string
+  remoteChainId: number
+  bridgeInfo?: SuckerBridgeInfo
+}
+
+class HistoryRecoveryService {
+  private blockTimestampCache = new Map<string, number>()
+
+  private async getBlockTimestamp(chainId: number, blockNumber: bigint): Promise<number> {
+    const cacheKey = `${chainId}-${blockNumber}`
+    const cached = this.blockTimestampCache.get(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    try {
+      const block = await getSharedPublicClient(chainId).getBlock({ blockNumber })
+      const timestamp = Number(block.timestamp) * 1000
+      this.blockTimestampCache.set(cacheKey, timestamp)
+      return timestamp
+    } catch (error) {
+      console.warn(`Failed to get timestamp for block ${blockNumber} on chain ${chainId}:`, error)
+      return Date.now()
+    }
+  }
+
+  /**
+   * Get the project's terminal tokens that are mapped on a sucker
+   */
+  private async getMappedTerminalTokens(chainId: number, projectId: string, suckerAddress: Address): Promise<Address[]> {
+    const terminals = await jbDirectoryService.getTerminalsForProject(chainId, projectId)
+    if (terminals.length === 0) {
+      return []
+    }
+
+    const contexts = await jbDirectoryService.getAccountingContextsForTerminals(chainId, terminals, projectId)
+    const tokens = Array.from(new Set(contexts.flat().map(context => context.token as Address)))
+
+    return jbDirectoryService.getMappedTokensOnSucker(chainId, suckerAddress, tokens)
+  }
+
+  /**
+   * Rebuild stored transactions for one sucker from its outbox logs
+   */
+  private async recoverFromSucker(side: SuckerSide, beneficiaries: Address[], knownLeaves: Set<string>): Promise<StoredBridgeTransaction[]> {
+    const recovered: StoredBridgeTransaction[] = []
+    const tokens = await this.getMappedTerminalTokens(side.chainId, side.projectId, side.address)
+
+    for (const token of tokens) {
+      const outboxTree = await suckerService.getOutboxTree(side.chainId, side.address, token)
+      if (outboxTree.tree.count === 0) {
+        continue
+      }
+
+      const leaves = await suckerService.getBeneficiaryOutboxLogs(side.chainId, side.address, token, beneficiaries)
+      const beneficiaryLeaves = leaves.filter(leaf =>
+        !knownLeaves.has(getLeafKey(side.chainId, side.address, token, leaf.index)) &&
+        !knownLeaves.has(leaf.transactionHash.toLowerCase())
+      )
+
+      for (const leaf of beneficiaryLeaves) {
+        recovered.push({
+          id: bridgeStorageService.generateTransactionId(),
+          transactionHash: leaf.transactionHash,
+          projectId: side.projectId,
+          sourceChainId: side.chainId,
+          targetChainId: side.remoteChainId,
+          suckerAddress: side.address,
+          beneficiary: leaf.beneficiary,
+          token,
+          projectTokenCount: formatUnits(BigInt(leaf.projectTokenCount), PROJECT_TOKEN_DECIMALS),
+          terminalTokenAmount: leaf.terminalTokenAmount,
+          minTokensReclaimed: '0', // Not emitted
+          bridgeInfo: side.bridgeInfo,
+          hashed: leaf.hashed,
+          index: leaf.index,
+          root: leaf.root,
+          caller: leaf.caller,
+          claimProof: null,
+          claimLeaf: null,
+          timestamp: await this.getBlockTimestamp(side.chainId, leaf.blockNumber),
+          // The state monitor moves this forward from here
+          status: 'waiting_to_send'
+        })
+      }
+    }
+
+    return recovered
+  }
+
+  /**
+   * Scan every known sucker of a project for InsertToOutboxTree logs to any of the beneficiaries
+   * and store any bridge transactions that aren't already stored
+   */
+  async recoverHistory(
+    chainId: number,
+    projectId: string,
+    beneficiaries: Address[],
+    onProgress?: (progress: RecoveryProgress) => void
+  ): Promise<RecoveryResult> {
+    await bridgeStorageService.ready()
+
+    const discovery = await suckerDiscoveryService.discoverAllSuckers(chainId, projectId)
+
+    // Each side of each pair is a source sucker with its own outbox
+    const sides: SuckerSide[] = []
+    for (const pair of discovery.suckerPairs.values()) {
+      sides.push({
+        chainId: pair.chainA.chainId,
+        address: pair.chainA.address,
+        projectId: pair.chainA.projectId,
+        remoteChainId: pair.chainB.chainId,
+        bridgeInfo: pair.chainA.bridgeInfo
+      })
+      sides.push({
+        chainId: pair.chainB.chainId,
+        address: pair.chainB.address,
+        projectId: pair.chainB.projectId,
+        remoteChainId: pair.chainA.chainId,
+        bridgeInfo: pair.chainB.bridgeInfo
+      })
+    }
+
+    // Prepares still waiting for their receipt have no index yet, so they're known by hash alone
+    const knownLeaves = new Set(
+      bridgeStorageService.getAllTransactions().map(tx =>
+        tx.index
+          ? getLeafKey(tx.sourceChainId, tx.suckerAddress, tx.token, tx.index)
+          : tx.transactionHash.toLowerCase()
+      )
+    )
+
+    const recovered: StoredBridgeTransaction[] = []
+    const failedSuckers: string[] = []
+
+    for (const [i, side] of sides.entries()) {
+      try {
+        const fromSucker = await this.recoverFromSucker(side, beneficiaries, knownLeaves)
+        fromSucker.forEach(tx => {
+          bridgeStorageService.storeBridgeTransaction(tx)
+          knownLeaves.add(getLeafKey(tx.sourceChainId, tx.suckerAddress, tx.token, tx.index))
+        })
+        recovered.push(...fromSucker)
+      } catch (error) {
+        console.error(`Failed to recover history from sucker ${side.address} on chain ${side.chainId}:`, error)
+        failedSuckers.push(`${side.chainId}:${side.address}`)
+      }
+
+      onProgress?.({ scannedSuckers: i + 1, totalSuckers: sides.length, recovered: recovered.length })
+    }
+
+    console.log(`Recovered ${recovered.length} bridge transactions for ${beneficiaries.join(', ')} from ${sides.length} suckers`)
+
+    return { recovered, failedSuckers }
+  }
+}
+
+export const historyRecoveryService = new HistoryRecoveryService()
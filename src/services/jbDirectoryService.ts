@@ -107,6 +107,56 @@ class JBDirectoryService {
     }
   }
 
+  /**
+   * Get accounting contexts for several terminals in a single multicall
+   */
+  async getAccountingContextsForTerminals(
+    chainId: number,
+    terminalAddresses: Address[],
+    projectId: string
+  ): Promise<JBAccountingContext[][]> {
+    const client = getSharedPublicClient(chainId)
+
+    const results = await client.multicall({
+      contracts: terminalAddresses.map(terminal => ({
+        address: terminal,
+        abi: JB_TERMINAL_ABI,
+        functionName: 'accountingContextsOf' as const,
+        args: [BigInt(projectId)] as const
+      }))
+    })
+
+    return results.map((result, i) => {
+      if (result.status === 'failure') {
+        console.warn(`Failed to get accounting contexts for terminal ${terminalAddresses[i]} on chain ${chainId}:`, result.error)
+        return []
+      }
+      return result.result.map(context => ({
+        token: context.token,
+        decimals: context.decimals,
+        currency: context.currency
+      }))
+    })
+  }
+
+  /**
+   * Check which tokens are mapped on a sucker in a single multicall
+   */
+  async getMappedTokensOnSucker(chainId: number, suckerAddress: Address, tokenAddresses: Address[]): Promise<Address[]> {
+    const client = getSharedPublicClient(chainId)
+
+    const results = await client.multicall({
+      contracts: tokenAddresses.map(token => ({
+        address: suckerAddress,
+        abi: JB_SUCKER_ABI,
+        functionName: 'isMapped' as const,
+        args: [token] as const
+      }))
+    })
+
+    return tokenAddresses.filter((_, i) => results[i].status === 'success' && results[i].result === true)
+  }
+
   async getSupportedTerminalTokenForProject(
     chainId: number, 
     projectId: string, 
@@ -119,26 +169,20 @@ class JBDirectoryService {
         return null
       }
 
-      // Check all terminals and their accounting contexts
-      for (const terminal of terminals) {
-        const accountingContexts = await this.getAccountingContextsForTerminal(
-          chainId, 
-          terminal, 
-          projectId
-        )
-
-        // Check each token to see if it's supported by the sucker
-        for (const context of accountingContexts) {
-          const tokenAddress = context.token as Address
-          const isSupported = await this.isTokenMappedOnSucker(chainId, suckerAddress, tokenAddress)
-          
-          if (isSupported) {
-            return tokenAddress
-          }
-        }
+      // Fetch accounting contexts for all terminals at once, keeping terminal order
+      const contextsByTerminal = await this.getAccountingContextsForTerminals(chainId, terminals, projectId)
+      const tokens = Array.from(new Set(
+        contextsByTerminal.flat().map(context => context.token as Address)
+      ))
+
+      if (tokens.length === 0) {
+        return null
       }
 
-      return null
+      // Check every token against the sucker at once and return the first supported one
+      const mappedTokens = await this.getMappedTokensOnSucker(chainId, suckerAddress, tokens)
+
+      return mappedTokens[0] ?? null
     } catch (error) {
       console.error(`Failed to get supported terminal token for project ${projectId} on chain ${chainId}:`, error)
       return null
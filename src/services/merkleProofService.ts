@@ -0,0 +1,295 @@
+import { type Address, type Hex, zeroAddress } from 'viem'
+import { suckerService, type InsertToOutboxTreeLog } from './suckerService'
+import { bridgeStorageService, type StoredBridgeTransaction } from './bridgeStorageService'
+import { type JBClaim } from '@/types/bridge'
+import { branchRoot, computeProof, computeRoot, hashLeaf } from '@/utils/merkleUtils'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+import { LOG_CHUNK_SIZE, MAX_LOG_CHUNKS } from '@/utils/logUtils'
+import { getChainName } from '@/utils/chainUtils'
+
+export interface ClaimVerificationResult {
+  valid: boolean
+  error?: string
+  computedRoot?: string
+  inboxRoot?: string
+  inboxNonce?: number
+}
+
+interface CachedLeaves {
+  leaves: Map<number, InsertToOutboxTreeLog>
+  scannedToBlock: bigint // Every block up to and including this one has been scanned
+}
+
+class MerkleProofService {
+  // Cache of outbox leaves per sucker/token so repeated proofs don't rescan logs
+  private leafCache = new Map<string, CachedLeaves>()
+
+  private hasLeaves(leaves: Map<number, InsertToOutboxTreeLog>, count: number): boolean {
+    for (let i = 0; i < count; i++) {
+      if (!leaves.has(i)) return false
+    }
+    return true
+  }
+
+  private addLogs(leaves: Map<number, InsertToOutboxTreeLog>, logs: InsertToOutboxTreeLog[]): void {
+    logs.forEach(log => leaves.set(parseInt(log.index), log))
+  }
+
+  /**
+   * Scan InsertToOutboxTree logs forward in chunks until leaves 0..count-1 are known.
+   * Returns the last block scanned, so a later call can pick up where this one stopped.
+   */
+  private async scanLogsInChunks(
+    chainId: number,
+    suckerAddress: Address,
+    tokenAddress: Address,
+    fromBlock: bigint,
+    latestBlock: bigint,
+    count: number,
+    leaves: Map<number, InsertToOutboxTreeLog>
+  ): Promise<bigint> {
+    let scannedToBlock = fromBlock - BigInt(1)
+
+    for (let chunk = 0; chunk < MAX_LOG_CHUNKS && scannedToBlock < latestBlock; chunk++) {
+      const start = scannedToBlock + BigInt(1)
+      const end = start + LOG_CHUNK_SIZE - BigInt(1) < latestBlock ? start + LOG_CHUNK_SIZE - BigInt(1) : latestBlock
+
+      const logs = await suckerService.getInsertToOutboxTreeLogs(chainId, suckerAddress, tokenAddress, start, end)
+      this.addLogs(leaves, logs)
+      scannedToBlock = end
+
+      if (this.hasLeaves(leaves, count)) {
+        break
+      }
+    }
+
+    return scannedToBlock
+  }
+
+  /**
+   * Get the block a leaf was inserted at, if an earlier scan already found it
+   */
+  getCachedLeafBlock(chainId: number, suckerAddress: Address, tokenAddress: Address, index: number): bigint | null {
+    const cacheKey = `${chainId}-${suckerAddress.toLowerCase()}-${tokenAddress.toLowerCase()}`
+    return this.leafCache.get(cacheKey)?.leaves.get(index)?.blockNumber ?? null
+  }
+
+  /**
+   * Get the first `count` leaves of a sucker's outbox tree for a token, ordered by index
+   */
+  async getOutboxLeaves(
+    chainId: number,
+    suckerAddress: Address,
+    tokenAddress: Address,
+    count: number
+  ): Promise<InsertToOutboxTreeLog[]> {
+    const cacheKey = `${chainId}-${suckerAddress.toLowerCase()}-${tokenAddress.toLowerCase()}`
+    const cached = this.leafCache.get(cacheKey)
+    const leaves = new Map(cached?.leaves ?? [])
+
+    if (!this.hasLeaves(leaves, count)) {
+      const client = getSharedPublicClient(chainId)
+      const latestBlock = await client.getBlockNumber()
+      let scannedToBlock = cached?.scannedToBlock ?? null
+
+      try {
+        // Only fetch blocks we haven't seen if we have a cache, otherwise try the full range at once
+        const logs = await suckerService.getInsertToOutboxTreeLogs(
+          chainId,
+          suckerAddress,
+          tokenAddress,
+          scannedToBlock !== null ? scannedToBlock + BigInt(1) : 'earliest',
+          latestBlock
+        )
+        this.addLogs(leaves, logs)
+        scannedToBlock = latestBlock
+      } catch (error) {
+        console.warn(`Full-range log query failed for ${cacheKey}, scanning in chunks:`, error)
+
+        // Nothing can be emitted before the sucker exists, so a first scan starts at its deploy block
+        const fromBlock = scannedToBlock !== null
+          ? scannedToBlock + BigInt(1)
+          : await suckerService.getDeployBlock(chainId, suckerAddress)
+        if (fromBlock === null) {
+          console.warn(`Deploy block of sucker ${suckerAddress} on chain ${chainId} is unknown, can't scan its logs in chunks`)
+        } else {
+          scannedToBlock = await this.scanLogsInChunks(chainId, suckerAddress, tokenAddress, fromBlock, latestBlock, count, leaves)
+        }
+      }
+
+      if (scannedToBlock !== null) {
+        this.leafCache.set(cacheKey, { leaves, scannedToBlock })
+      }
+    }
+
+    if (!this.hasLeaves(leaves, count)) {
+      throw new Error(`Could not find all ${count} outbox leaves for sucker ${suckerAddress} on chain ${chainId}`)
+    }
+
+    return Array.from({ length: count }, (_, i) => leaves.get(i)!)
+  }
+
+  /**
+   * Get the token a transaction is claimed with on the destination: the one stored with its claim data,
+   * otherwise the token its terminal token maps to on the remote chain
+   */
+  async getClaimToken(transaction: StoredBridgeTransaction): Promise<Address> {
+    if (transaction.claimToken) {
+      return transaction.claimToken
+    }
+
+    try {
+      const mappedToken = await suckerService.getRemoteToken(transaction.sourceChainId, transaction.suckerAddress, transaction.token)
+      if (mappedToken !== zeroAddress) {
+        return mappedToken
+      }
+    } catch (error) {
+      console.warn(`Failed to get remote token for ${transaction.token}, using local token:`, error)
+    }
+    return transaction.token
+  }
+
+  /**
+   * Build claim data for a transaction from the source sucker's outbox logs.
+   * Returns null if the transaction's leaf hasn't been sent to the remote chain yet.
+   */
+  async buildClaim(transaction: StoredBridgeTransaction): Promise<JBClaim | null> {
+    if (!transaction.index) {
+      return null
+    }
+
+    const index = parseInt(transaction.index)
+
+    // The remote inbox root covers every leaf up to numberOfClaimsSent
+    const outboxTree = await suckerService.getOutboxTree(
+      transaction.sourceChainId,
+      transaction.suckerAddress,
+      transaction.token
+    )
+    const count = outboxTree.numberOfClaimsSent
+
+    if (index >= count) {
+      console.log(`Transaction ${transaction.id} (index ${index}) not yet sent - ${count} claims sent`)
+      return null
+    }
+
+    const leaves = await this.getOutboxLeaves(
+      transaction.sourceChainId,
+      transaction.suckerAddress,
+      transaction.token,
+      count
+    )
+    const hashes = leaves.map(leaf => leaf.hashed as Hex)
+
+    // The root emitted with the last leaf is the root that was sent to the remote chain
+    const root = computeRoot(hashes)
+    if (root.toLowerCase() !== leaves[count - 1].root.toLowerCase()) {
+      throw new Error(`Rebuilt outbox root ${root} does not match emitted root ${leaves[count - 1].root}`)
+    }
+
+    const leaf = leaves[index]
+    const expectedHash = hashLeaf(BigInt(leaf.projectTokenCount), BigInt(leaf.terminalTokenAmount), leaf.beneficiary)
+    if (expectedHash.toLowerCase() !== leaf.hashed.toLowerCase()) {
+      console.warn(`Leaf hash mismatch for index ${index}: expected ${expectedHash}, emitted ${leaf.hashed}`)
+    }
+
+    return {
+      Token: await this.getClaimToken(transaction),
+      Leaf: {
+        Index: leaf.index,
+        Beneficiary: leaf.beneficiary,
+        ProjectTokenCount: leaf.projectTokenCount,
+        TerminalTokenAmount: leaf.terminalTokenAmount
+      },
+      Proof: computeProof(hashes, index)
+    }
+  }
+
+  /**
+   * Verify a claim against the inbox root of the destination sucker before submitting it
+   */
+  async verifyClaim(chainId: number, suckerAddress: Address, claim: JBClaim): Promise<ClaimVerificationResult> {
+    let leafHash: Hex
+    try {
+      leafHash = hashLeaf(
+        BigInt(claim.Leaf.ProjectTokenCount),
+        BigInt(claim.Leaf.TerminalTokenAmount),
+        claim.Leaf.Beneficiary as Address
+      )
+    } catch (error) {
+      console.error('Failed to hash claim leaf:', error)
+      return { valid: false, error: 'Claim leaf data is malformed' }
+    }
+
+    const proof = suckerService.normalizeProof(claim.Proof)
+    const computedRoot = branchRoot(leafHash, [...proof], BigInt(claim.Leaf.Index))
+
+    let inboxRoot: string
+    let inboxNonce: number
+    try {
+      const inbox = await suckerService.getInboxTreeRoot(chainId, suckerAddress, claim.Token as Address)
+      inboxRoot = inbox.root
+      inboxNonce = inbox.nonce
+    } catch (error) {
+      console.error(`Failed to read inbox root on chain ${chainId}:`, error)
+      return { valid: false, computedRoot, error: `Could not read the inbox root on ${getChainName(chainId)} to verify the proof` }
+    }
+
+    if (computedRoot.toLowerCase() !== inboxRoot.toLowerCase()) {
+      return {
+        valid: false,
+        computedRoot,
+        inboxRoot,
+        inboxNonce,
+        error: `Proof does not match the inbox root on ${getChainName(chainId)}. The root may not have arrived yet, or the proof is invalid.`
+      }
+    }
+
+    return { valid: true, computedRoot, inboxRoot, inboxNonce }
+  }
+
+  /**
+   * Get a transaction's stored claim checked against the destination inbox root. A stale stored
+   * proof is rebuilt from the source chain and saved if the rebuilt one verifies.
+   */
+  async getVerifiedClaim(transaction: StoredBridgeTransaction): Promise<{ claim: JBClaim, verification: ClaimVerificationResult }> {
+    if (!transaction.claimProof || !transaction.claimLeaf) {
+      throw new Error(`Transaction ${transaction.id} has no claim data`)
+    }
+
+    let claim: JBClaim = {
+      Token: await this.getClaimToken(transaction),
+      Leaf: transaction.claimLeaf,
+      Proof: transaction.claimProof
+    }
+    let verification = await this.verifyClaim(transaction.targetChainId, transaction.suckerAddress, claim)
+
+    if (!verification.valid && verification.inboxRoot) {
+      console.warn('Stored proof failed verification, rebuilding locally:', verification)
+      try {
+        const localClaim = await this.buildClaim(transaction)
+        if (localClaim) {
+          const localVerification = await this.verifyClaim(transaction.targetChainId, transaction.suckerAddress, localClaim)
+          if (localVerification.valid) {
+            bridgeStorageService.updateTransactionWithClaimData(transaction.id, localClaim)
+            claim = localClaim
+            verification = localVerification
+          }
+        }
+      } catch (rebuildError) {
+        console.error('Failed to rebuild proof locally:', rebuildError)
+      }
+    }
+
+    return { claim, verification }
+  }
+
+  /**
+   * Clear cached leaves (useful for testing)
+   */
+  clearCache(): void {
+    this.leafCache.clear()
+  }
+}
+
+export const merkleProofService = new MerkleProofService()
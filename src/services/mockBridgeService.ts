@@ -37,7 +37,7 @@ const mockTransactions: BridgeTransaction[] = [
     destinationChainId: base.id,
     token: mockTokens[0],
     amount: '1.5',
-    status: 'awaiting_bridge'
+    status: 'waiting_to_send'
   },
   {
     id: '0x2345678901abcdef2345678901abcdef2345678901abcdef2345678901abcdef',
@@ -45,7 +45,7 @@ const mockTransactions: BridgeTransaction[] = [
     destinationChainId: optimism.id,
     token: mockTokens[1],
     amount: '100',
-    status: 'in_transit'
+    status: 'sent_to_remote'
   },
   {
     id: '0x3456789012abcdef3456789012abcdef3456789012abcdef3456789012abcdef',
@@ -53,7 +53,7 @@ const mockTransactions: BridgeTransaction[] = [
     destinationChainId: base.id,
     token: mockTokens[2],
     amount: '50',
-    status: 'awaiting_claim'
+    status: 'ready_to_claim'
   },
   {
     id: '0x4567890123abcdef4567890123abcdef4567890123abcdef4567890123abcdef',
@@ -61,7 +61,7 @@ const mockTransactions: BridgeTransaction[] = [
     destinationChainId: mainnet.id,
     token: mockTokens[0],
     amount: '0.75',
-    status: 'awaiting_claim'
+    status: 'ready_to_claim'
   }
 ]
 
@@ -102,7 +102,7 @@ export const createBridgeTransaction = async (
     destinationChainId,
     token,
     amount,
-    status: 'awaiting_bridge'
+    status: 'waiting_to_send'
   }
   
   // In a real app, you would send this to your backend
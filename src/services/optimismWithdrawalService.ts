@@ -0,0 +1,316 @@
+import { type Address, type Chain, type ChainContract, type TransactionReceipt, zeroAddress } from 'viem'
+import {
+  buildProveWithdrawal,
+  getGame,
+  getTimeToFinalize,
+  getTimeToProve,
+  getWithdrawalStatus,
+  getWithdrawals,
+  type GetWithdrawalStatusReturnType
+} from 'viem/op-stack'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+import { SUPPORTED_CHAINS } from '@/utils/chainUtils'
+import { type OpWithdrawalState, type OpWithdrawalStatus } from '@/types/bridge'
+import { bridgeStorageService, type StoredBridgeTransaction } from './bridgeStorageService'
+import { suckerService } from './suckerService'
+
+const WITHDRAWAL_TRANSACTION_COMPONENTS = [
+  { name: 'nonce', type: 'uint256' },
+  { name: 'sender', type: 'address' },
+  { name: 'target', type: 'address' },
+  { name: 'value', type: 'uint256' },
+  { name: 'gasLimit', type: 'uint256' },
+  { name: 'data', type: 'bytes' }
+] as const
+
+// The OptimismPortal calls the app makes; reads of portal state go through viem/op-stack
+const OPTIMISM_PORTAL_ABI = [
+  {
+    name: 'proveWithdrawalTransaction',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: '_tx', type: 'tuple', components: WITHDRAWAL_TRANSACTION_COMPONENTS },
+      { name: '_disputeGameIndex', type: 'uint256' },
+      {
+        name: '_outputRootProof',
+        type: 'tuple',
+        components: [
+          { name: 'version', type: 'bytes32' },
+          { name: 'stateRoot', type: 'bytes32' },
+          { name: 'messagePasserStorageRoot', type: 'bytes32' },
+          { name: 'latestBlockhash', type: 'bytes32' }
+        ]
+      },
+      { name: '_withdrawalProof', type: 'bytes[]' }
+    ],
+    outputs: []
+  },
+  {
+    name: 'finalizeWithdrawalTransaction',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: '_tx', type: 'tuple', components: WITHDRAWAL_TRANSACTION_COMPONENTS }],
+    outputs: []
+  },
+  {
+    name: 'finalizeWithdrawalTransactionExternalProof',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: '_tx', type: 'tuple', components: WITHDRAWAL_TRANSACTION_COMPONENTS },
+      { name: '_proofSubmitter', type: 'address' }
+    ],
+    outputs: []
+  },
+  {
+    name: 'numProofSubmitters',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '_withdrawalHash', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    name: 'proofSubmitters',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: '', type: 'bytes32' },
+      { name: '', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'address' }]
+  }
+] as const
+
+// Sub-states in the order a withdrawal moves through them
+const STATUS_ORDER: OpWithdrawalStatus[] = ['waiting_to_prove', 'ready_to_prove', 'waiting_to_finalize', 'ready_to_finalize', 'finalized']
+
+const VIEM_STATUS_MAP: Record<GetWithdrawalStatusReturnType, OpWithdrawalStatus> = {
+  'waiting-to-prove': 'waiting_to_prove',
+  'ready-to-prove': 'ready_to_prove',
+  'waiting-to-finalize': 'waiting_to_finalize',
+  'ready-to-finalize': 'ready_to_finalize',
+  'finalized': 'finalized'
+}
+
+type Withdrawal = ReturnType<typeof getWithdrawals>[number]
+
+// An L2 chain definition with its fault-proof contracts on L1, keyed by L1 chain ID
+type OpStackChain = Chain & {
+  contracts: {
+    portal: Record<number, ChainContract>
+    disputeGameFactory: Record<number, ChainContract>
+    l2OutputOracle: Record<number, ChainContract>
+  }
+}
+
+interface WithdrawalSet {
+  receipt: TransactionReceipt
+  withdrawals: Withdrawal[]
+}
+
+/**
+ * The WithdrawalTransaction struct the portal takes, without viem's withdrawalHash
+ */
+function toWithdrawalTransaction(withdrawal: Withdrawal) {
+  return {
+    nonce: withdrawal.nonce,
+    sender: withdrawal.sender,
+    target: withdrawal.target,
+    value: withdrawal.value,
+    gasLimit: withdrawal.gasLimit,
+    data: withdrawal.data
+  }
+}
+
+class OptimismWithdrawalService {
+  private withdrawalCache = new Map<string, WithdrawalSet>()
+
+  /**
+   * Get the L2 chain definition, which carries the portal and dispute game factory for its L1
+   */
+  private getL2Chain(l2ChainId: number, l1ChainId: number): OpStackChain {
+    const chain = SUPPORTED_CHAINS[l2ChainId] as OpStackChain | undefined
+    if (!chain?.contracts?.portal?.[l1ChainId] || !chain.contracts.disputeGameFactory?.[l1ChainId]) {
+      throw new Error(`No OptimismPortal known for chain ${l2ChainId} on chain ${l1ChainId}`)
+    }
+    return chain
+  }
+
+  /**
+   * Get the withdrawals initiated by the toRemote() call carrying this transaction.
+   * An ERC-20 root sends two: the token bridge withdrawal and the sucker's own message.
+   */
+  private async getWithdrawalSet(transaction: StoredBridgeTransaction): Promise<WithdrawalSet | null> {
+    const cached = this.withdrawalCache.get(transaction.id)
+    if (cached) {
+      return cached
+    }
+
+    const receipt = await suckerService.getToRemoteReceipt(transaction)
+    if (!receipt) {
+      return null
+    }
+    if (!transaction.toRemoteTransactionHash) {
+      bridgeStorageService.updateTransactionToRemoteHash(transaction.id, receipt.transactionHash)
+    }
+
+    const withdrawals = getWithdrawals({ logs: receipt.logs })
+    if (withdrawals.length === 0) {
+      console.warn(`No MessagePassed logs in toRemote transaction ${receipt.transactionHash}`)
+      return null
+    }
+
+    const set = { receipt, withdrawals }
+    this.withdrawalCache.set(transaction.id, set)
+    return set
+  }
+
+  /**
+   * Work out where a transaction's withdrawals are in the prove/finalize flow, with countdowns.
+   * With several withdrawals the transaction is only as far along as the slowest one.
+   */
+  async getWithdrawalState(transaction: StoredBridgeTransaction): Promise<OpWithdrawalState | null> {
+    const set = await this.getWithdrawalSet(transaction)
+    if (!set) {
+      return null
+    }
+
+    const l1Client = getSharedPublicClient(transaction.targetChainId)
+    const targetChain = this.getL2Chain(transaction.sourceChainId, transaction.targetChainId)
+
+    const statuses = await Promise.all(set.withdrawals.map((_, logIndex) =>
+      getWithdrawalStatus(l1Client, { chain: undefined, receipt: set.receipt, targetChain, logIndex })
+    ))
+    const status = statuses
+      .map(viemStatus => VIEM_STATUS_MAP[viemStatus])
+      .reduce((slowest, current) => STATUS_ORDER.indexOf(current) < STATUS_ORDER.indexOf(slowest) ? current : slowest)
+
+    const state: OpWithdrawalState = { status, updatedAt: Date.now() }
+
+    if (status === 'waiting_to_prove') {
+      try {
+        const timeToProve = await getTimeToProve(l1Client, { chain: undefined, receipt: set.receipt, targetChain })
+        if (timeToProve.timestamp) {
+          state.proveAvailableAt = timeToProve.timestamp
+        }
+      } catch (error) {
+        console.warn(`Failed to estimate time to prove for transaction ${transaction.id}:`, error)
+      }
+    }
+
+    if (status === 'waiting_to_finalize') {
+      // Withdrawals proven separately mature separately; wait for the last one
+      const pending = set.withdrawals.filter((_, i) => statuses[i] === 'waiting-to-finalize')
+      try {
+        const timesToFinalize = await Promise.all(pending.map(withdrawal =>
+          getTimeToFinalize(l1Client, { chain: undefined, withdrawalHash: withdrawal.withdrawalHash, targetChain })
+        ))
+        state.finalizeAvailableAt = Math.max(...timesToFinalize.map(time => time.timestamp))
+      } catch (error) {
+        console.warn(`Failed to get time to finalize for transaction ${transaction.id}:`, error)
+      }
+    }
+
+    return state
+  }
+
+  /**
+   * Find the first withdrawal in the set that's at the given step
+   */
+  private async getWithdrawalAtStep(
+    transaction: StoredBridgeTransaction,
+    step: GetWithdrawalStatusReturnType
+  ): Promise<{ set: WithdrawalSet, withdrawal: Withdrawal, targetChain: OpStackChain }> {
+    const set = await this.getWithdrawalSet(transaction)
+    if (!set) {
+      throw new Error(`No toRemote withdrawal found for transaction ${transaction.id}`)
+    }
+
+    const l1Client = getSharedPublicClient(transaction.targetChainId)
+    const targetChain = this.getL2Chain(transaction.sourceChainId, transaction.targetChainId)
+
+    for (let logIndex = 0; logIndex < set.withdrawals.length; logIndex++) {
+      const status = await getWithdrawalStatus(l1Client, { chain: undefined, receipt: set.receipt, targetChain, logIndex })
+      if (status === step) {
+        return { set, withdrawal: set.withdrawals[logIndex], targetChain }
+      }
+    }
+
+    throw new Error(`No withdrawal for transaction ${transaction.id} is ${step.replace(/-/g, ' ')}`)
+  }
+
+  /**
+   * Build the OptimismPortal.proveWithdrawalTransaction() call for the next withdrawal ready to prove.
+   * Call again after it confirms if the transaction has more than one withdrawal.
+   */
+  async getProveWithdrawalData(transaction: StoredBridgeTransaction) {
+    const { set, withdrawal, targetChain } = await this.getWithdrawalAtStep(transaction, 'ready-to-prove')
+
+    const l1Client = getSharedPublicClient(transaction.targetChainId)
+    const game = await getGame(l1Client, { chain: undefined, l2BlockNumber: set.receipt.blockNumber, targetChain })
+
+    const proof = await buildProveWithdrawal(getSharedPublicClient(transaction.sourceChainId), { chain: undefined, withdrawal, game })
+    const withdrawalTransaction = toWithdrawalTransaction(withdrawal)
+
+    return {
+      address: targetChain.contracts.portal[transaction.targetChainId].address,
+      abi: OPTIMISM_PORTAL_ABI,
+      functionName: 'proveWithdrawalTransaction' as const,
+      args: [withdrawalTransaction, proof.l2OutputIndex, proof.outputRootProof, proof.withdrawalProof] as const
+    }
+  }
+
+  /**
+   * Build the finalize call for the next withdrawal past its proof maturity delay.
+   * Anyone can finalize, so it names whoever proved the withdrawal.
+   */
+  async getFinalizeWithdrawalData(transaction: StoredBridgeTransaction) {
+    const { withdrawal, targetChain } = await this.getWithdrawalAtStep(transaction, 'ready-to-finalize')
+
+    const l1Client = getSharedPublicClient(transaction.targetChainId)
+    const portal = targetChain.contracts.portal[transaction.targetChainId].address
+    const { withdrawalHash } = withdrawal
+    const withdrawalTransaction = toWithdrawalTransaction(withdrawal)
+
+    // Portals before v3 only track a single proof and don't have proofSubmitters
+    let proofSubmitter: Address = zeroAddress
+    try {
+      const count = await l1Client.readContract({
+        address: portal,
+        abi: OPTIMISM_PORTAL_ABI,
+        functionName: 'numProofSubmitters',
+        args: [withdrawalHash]
+      })
+      if (count > BigInt(0)) {
+        // The latest proof is the one that can finalize, as viem's finalizeWithdrawal picks it
+        proofSubmitter = await l1Client.readContract({
+          address: portal,
+          abi: OPTIMISM_PORTAL_ABI,
+          functionName: 'proofSubmitters',
+          args: [withdrawalHash, count - BigInt(1)]
+        })
+      }
+    } catch {
+      // Legacy portal
+    }
+
+    if (proofSubmitter === zeroAddress) {
+      return {
+        address: portal,
+        abi: OPTIMISM_PORTAL_ABI,
+        functionName: 'finalizeWithdrawalTransaction' as const,
+        args: [withdrawalTransaction] as const
+      }
+    }
+
+    return {
+      address: portal,
+      abi: OPTIMISM_PORTAL_ABI,
+      functionName: 'finalizeWithdrawalTransactionExternalProof' as const,
+      args: [withdrawalTransaction, proofSubmitter] as const
+    }
+  }
+}
+
+export const optimismWithdrawalService = new OptimismWithdrawalService()
@@ -0,0 +1,150 @@
+import { type Address } from 'viem'
+import { JBAccountingContext } from '@/types/bridge'
+import { getSharedPublicClient } from '@/utils/clientUtils'
+import { jbDirectoryService } from './jbDirectoryService'
+
+const SLIPPAGE_STORAGE_KEY = 'juicerkle-reclaim-slippage-bps'
+const DEFAULT_SLIPPAGE_BPS = 200 // 2%
+const MAX_SLIPPAGE_BPS = 5000
+
+// JBConstants.MAX_FEE, the terminal's FEE is out of this
+const MAX_FEE = BigInt(1000)
+
+const JB_TERMINAL_ABI = [
+  {
+    name: 'STORE',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }]
+  },
+  {
+    name: 'FEE',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }]
+  }
+] as const
+
+const JB_TERMINAL_STORE_ABI = [
+  {
+    name: 'currentReclaimableSurplusOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'projectId', type: 'uint256' },
+      { name: 'cashOutCount', type: 'uint256' },
+      { name: 'terminals', type: 'address[]' },
+      {
+        name: 'accountingContexts',
+        type: 'tuple[]',
+        components: [
+          { name: 'token', type: 'address' },
+          { name: 'decimals', type: 'uint8' },
+          { name: 'currency', type: 'uint32' }
+        ]
+      },
+      { name: 'decimals', type: 'uint256' },
+      { name: 'currency', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'uint256' }]
+  }
+] as const
+
+export interface ReclaimQuote {
+  terminal: Address
+  context: JBAccountingContext
+  reclaimAmount: bigint // Terminal token base units the cash-out is expected to reclaim, after the terminal fee
+  feeAmount: bigint // Terminal fee taken out of the reclaimable surplus
+}
+
+class ReclaimQuoteService {
+  /**
+   * Get the slippage tolerance in basis points: user setting, then 2%
+   */
+  getSlippageBps(): number {
+    if (typeof window !== 'undefined') {
+      const stored = localStorage.getItem(SLIPPAGE_STORAGE_KEY)
+      if (stored !== null && this.isValidSlippageBps(Number(stored))) {
+        return Number(stored)
+      }
+    }
+
+    return DEFAULT_SLIPPAGE_BPS
+  }
+
+  isValidSlippageBps(bps: number): boolean {
+    return Number.isInteger(bps) && bps >= 0 && bps <= MAX_SLIPPAGE_BPS
+  }
+
+  saveSlippageBps(bps: number): void {
+    if (!this.isValidSlippageBps(bps)) {
+      throw new Error(`Slippage must be a whole number of basis points between 0 and ${MAX_SLIPPAGE_BPS}`)
+    }
+    localStorage.setItem(SLIPPAGE_STORAGE_KEY, bps.toString())
+  }
+
+  /**
+   * Quote what prepare() reclaims in the terminal token for a project token count.
+   * The store's surplus is before data hooks and fees; the terminal checks the minimum after its fee,
+   * so the fee is taken out here. Feeless or untaxed cash-outs skip the fee and land above the quote.
+   */
+  async getReclaimQuote(chainId: number, projectId: string, token: Address, projectTokenCount: bigint): Promise<ReclaimQuote | null> {
+    const terminals = await jbDirectoryService.getTerminalsForProject(chainId, projectId)
+    const contextsByTerminal = await jbDirectoryService.getAccountingContextsForTerminals(chainId, terminals, projectId)
+
+    // The sucker cashes out from the first terminal that accepts the token
+    const terminalIndex = contextsByTerminal.findIndex(contexts =>
+      contexts.some(context => context.token.toLowerCase() === token.toLowerCase())
+    )
+    if (terminalIndex === -1) {
+      return null
+    }
+
+    const terminal = terminals[terminalIndex]
+    const context = contextsByTerminal[terminalIndex].find(context => context.token.toLowerCase() === token.toLowerCase())!
+    const client = getSharedPublicClient(chainId)
+
+    const store = await client.readContract({
+      address: terminal,
+      abi: JB_TERMINAL_ABI,
+      functionName: 'STORE'
+    })
+
+    const [reclaimableSurplus, fee] = await Promise.all([
+      client.readContract({
+        address: store,
+        abi: JB_TERMINAL_STORE_ABI,
+        functionName: 'currentReclaimableSurplusOf',
+        args: [
+          BigInt(projectId),
+          projectTokenCount,
+          [terminal],
+          [{ token: context.token as Address, decimals: context.decimals, currency: context.currency }],
+          BigInt(context.decimals),
+          BigInt(context.currency)
+        ]
+      }),
+      client.readContract({
+        address: terminal,
+        abi: JB_TERMINAL_ABI,
+        functionName: 'FEE'
+      })
+    ])
+
+    // Same rounding as JBFees.feeAmountFrom
+    const feeAmount = (reclaimableSurplus * fee) / MAX_FEE
+
+    return { terminal, context, reclaimAmount: reclaimableSurplus - feeAmount, feeAmount }
+  }
+
+  /**
+   * Apply the slippage tolerance to a quoted reclaim amount
+   */
+  getMinTokensReclaimed(reclaimAmount: bigint, slippageBps: number): bigint {
+    return reclaimAmount - (reclaimAmount * BigInt(slippageBps)) / BigInt(10000)
+  }
+}
+
+export const reclaimQuoteService = new ReclaimQuoteService()
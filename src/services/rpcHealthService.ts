@@ -0,0 +1,124 @@
+import { HttpRequestError, RpcRequestError, TimeoutError } from 'viem'
+
+export interface RpcEndpointHealth {
+  url: string
+  requests: number
+  failures: number
+  averageLatencyMs: number | null
+  lastError: string | null
+  score: number | null // 0-100, null until the endpoint has been used
+}
+
+interface RpcSample {
+  latencyMs: number
+  success: boolean
+  timestamp: number
+}
+
+class RpcHealthService {
+  private samples = new Map<string, RpcSample[]>()
+  private lastErrors = new Map<string, string>()
+  private readonly MAX_SAMPLES = 20
+
+  // Same proportions viem uses when ranking fallback transports
+  private readonly LATENCY_WEIGHT = 0.3
+  private readonly STABILITY_WEIGHT = 0.7
+
+  private addSample(url: string, sample: RpcSample): void {
+    const samples = this.samples.get(url) ?? []
+    samples.push(sample)
+    if (samples.length > this.MAX_SAMPLES) {
+      samples.shift()
+    }
+    this.samples.set(url, samples)
+  }
+
+  /**
+   * Whether an error means the endpoint itself failed (as opposed to e.g. a reverted call)
+   */
+  isEndpointError(error: unknown): boolean {
+    if (error instanceof HttpRequestError || error instanceof TimeoutError) {
+      return true
+    }
+    // -32005: limit exceeded / rate limited
+    return error instanceof RpcRequestError && error.code === -32005
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    this.addSample(url, { latencyMs, success: true, timestamp: Date.now() })
+  }
+
+  recordFailure(url: string, latencyMs: number, error: unknown): void {
+    this.addSample(url, { latencyMs, success: false, timestamp: Date.now() })
+    this.lastErrors.set(url, error instanceof Error ? error.message.split('\n')[0] : String(error))
+  }
+
+  getHealth(url: string): RpcEndpointHealth {
+    const samples = this.samples.get(url) ?? []
+
+    if (samples.length === 0) {
+      return { url, requests: 0, failures: 0, averageLatencyMs: null, lastError: null, score: null }
+    }
+
+    const successes = samples.filter(sample => sample.success)
+    const averageLatencyMs = successes.length > 0
+      ? Math.round(successes.reduce((sum, sample) => sum + sample.latencyMs, 0) / successes.length)
+      : null
+
+    const stability = successes.length / samples.length
+    // 1.0 for instant responses, 0.5 at 500ms, approaching 0 for slow endpoints
+    const latencyScore = averageLatencyMs === null ? 0 : 1 / (1 + averageLatencyMs / 500)
+    const score = Math.round(100 * (this.STABILITY_WEIGHT * stability + this.LATENCY_WEIGHT * latencyScore))
+
+    return {
+      url,
+      requests: samples.length,
+      failures: samples.length - successes.length,
+      averageLatencyMs,
+      lastError: this.lastErrors.get(url) ?? null,
+      score
+    }
+  }
+
+  /**
+   * Ping an endpoint with eth_chainId and record the result
+   */
+  async probe(url: string, expectedChainId: number): Promise<RpcEndpointHealth> {
+    const start = Date.now()
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+        signal: AbortSignal.timeout(5000)
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`)
+      }
+
+      const data: { result?: string } = await response.json()
+      const chainId = data.result ? parseInt(data.result, 16) : NaN
+      if (chainId !== expectedChainId) {
+        throw new Error(`Endpoint is on chain ${data.result ? chainId : 'unknown'}, expected ${expectedChainId}`)
+      }
+
+      this.recordSuccess(url, Date.now() - start)
+    } catch (error) {
+      console.warn(`RPC probe failed for ${url}:`, error)
+      this.recordFailure(url, Date.now() - start, error)
+    }
+
+    return this.getHealth(url)
+  }
+
+  clearHealth(): void {
+    this.samples.clear()
+    this.lastErrors.clear()
+  }
+}
+
+export const rpcHealthService = new RpcHealthService()
@@ -0,0 +1,147 @@
+import { SUPPORTED_CHAINS } from '@/utils/chainUtils'
+
+// User-configured RPC URLs keyed by chain ID
+export type RpcUrlSettings = Record<number, string[]>
+
+const STORAGE_KEY = 'juicerkle-rpc-settings'
+
+// Built-in endpoints tried before the chain's default public RPC
+const DEFAULT_RPC_URLS: Record<number, string[]> = {
+  8453: ['https://base.llamarpc.com'],
+}
+
+class RpcSettingsService {
+  /**
+   * Parse NEXT_PUBLIC_RPC_URLS, a JSON object of chain ID to URL list (or comma-separated string)
+   */
+  private getEnvRpcUrls(): RpcUrlSettings {
+    const raw = process.env.NEXT_PUBLIC_RPC_URLS
+    if (!raw) {
+      return {}
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Record<string, string[] | string>
+      const settings: RpcUrlSettings = {}
+
+      for (const [chainId, urls] of Object.entries(parsed)) {
+        const list = Array.isArray(urls) ? urls : urls.split(',')
+        settings[Number(chainId)] = list.map(url => url.trim()).filter(url => this.isValidRpcUrl(url))
+      }
+
+      return settings
+    } catch (error) {
+      console.error('Failed to parse NEXT_PUBLIC_RPC_URLS:', error)
+      return {}
+    }
+  }
+
+  /**
+   * Parse NEXT_PUBLIC_WS_RPC_URLS, a JSON object of chain ID to a WebSocket URL used for event subscriptions
+   */
+  private getEnvWebSocketUrls(): Record<number, string> {
+    const raw = process.env.NEXT_PUBLIC_WS_RPC_URLS
+    if (!raw) {
+      return {}
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Record<string, string>
+      const urls: Record<number, string> = {}
+
+      for (const [chainId, url] of Object.entries(parsed)) {
+        if (this.isValidWebSocketUrl(url.trim())) {
+          urls[Number(chainId)] = url.trim()
+        }
+      }
+
+      return urls
+    } catch (error) {
+      console.error('Failed to parse NEXT_PUBLIC_WS_RPC_URLS:', error)
+      return {}
+    }
+  }
+
+  isValidRpcUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url)
+      return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+    } catch {
+      return false
+    }
+  }
+
+  isValidWebSocketUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url)
+      return parsed.protocol === 'ws:' || parsed.protocol === 'wss:'
+    } catch {
+      return false
+    }
+  }
+
+  getUserRpcUrls(): RpcUrlSettings {
+    // Config is built during server rendering too, where there is no localStorage
+    if (typeof window === 'undefined') {
+      return {}
+    }
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      return stored ? JSON.parse(stored) : {}
+    } catch (error) {
+      console.error('Failed to load RPC settings:', error)
+      return {}
+    }
+  }
+
+  saveUserRpcUrls(settings: RpcUrlSettings): void {
+    try {
+      const cleaned: RpcUrlSettings = {}
+      for (const [chainId, urls] of Object.entries(settings)) {
+        const valid = urls.map(url => url.trim()).filter(url => this.isValidRpcUrl(url))
+        if (valid.length > 0) {
+          cleaned[Number(chainId)] = valid
+        }
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(cleaned))
+    } catch (error) {
+      console.error('Failed to save RPC settings:', error)
+    }
+  }
+
+  clearUserRpcUrls(): void {
+    localStorage.removeItem(STORAGE_KEY)
+  }
+
+  getEnvRpcUrlsForChain(chainId: number): string[] {
+    return this.getEnvRpcUrls()[chainId] ?? []
+  }
+
+  getDefaultRpcUrlsForChain(chainId: number): string[] {
+    const chainDefaults = SUPPORTED_CHAINS[chainId]?.rpcUrls.default.http ?? []
+    return [...(DEFAULT_RPC_URLS[chainId] ?? []), ...chainDefaults]
+  }
+
+  /**
+   * Get the ordered RPC URLs for a chain: user settings, then environment, then built-in defaults
+   */
+  getRpcUrls(chainId: number): string[] {
+    const urls = [
+      ...(this.getUserRpcUrls()[chainId] ?? []),
+      ...this.getEnvRpcUrlsForChain(chainId),
+      ...this.getDefaultRpcUrlsForChain(chainId)
+    ]
+
+    return Array.from(new Set(urls))
+  }
+
+  /**
+   * Get the WebSocket URL for a chain, if one is configured
+   */
+  getWebSocketUrl(chainId: number): string | null {
+    return this.getEnvWebSocketUrls()[chainId] ?? null
+  }
+}
+
+export const rpcSettingsService = new RpcSettingsService()
@@ -56,6 +56,30 @@ export class SuckerDiscoveryService {
     }
   }
 
+  /**
+   * Get the project IDs of several suckers on one chain in a single multicall.
+   * Entries are null for suckers whose projectId() call failed.
+   */
+  async getProjectIdsFromSuckers(chainId: number, suckerAddresses: Address[]): Promise<(string | null)[]> {
+    const client = getSharedPublicClient(chainId)
+
+    const results = await client.multicall({
+      contracts: suckerAddresses.map(suckerAddress => ({
+        address: suckerAddress,
+        abi: SUCKER_ABI,
+        functionName: 'projectId' as const
+      }))
+    })
+
+    return results.map((result, i) => {
+      if (result.status === 'failure') {
+        console.warn(`Failed to get project ID from sucker ${suckerAddresses[i]} on chain ${chainId}:`, result.error)
+        return null
+      }
+      return result.result.toString()
+    })
+  }
+
   async getSuckerPairsForProject(chainId: number, projectId: string): Promise<JBSuckersPair[]> {
     try {
       const client = getSharedPublicClient(chainId)
@@ -68,9 +92,9 @@ export class SuckerDiscoveryService {
       })
       
       // Convert the result to our interface format
-      return result.map((pair: { local: string; remote: string; remoteChainId: bigint }) => ({
-        local: pair.local as string,
-        remote: pair.remote as string,
+      return result.map(pair => ({
+        local: pair.local,
+        remote: pair.remote,
         remoteChainId: Number(pair.remoteChainId)
       }))
     } catch (error) {
@@ -96,79 +120,100 @@ export class SuckerDiscoveryService {
     ]
 
     while (toCheck.length > 0) {
-      const { chainId, projectId } = toCheck.pop()!
-      const key = `${chainId}-${projectId}`
-      
-      if (checkedCombinations.has(key)) {
-        continue
-      }
-      
-      checkedCombinations.add(key)
+      // Query every pending chain/project at once so each discovery level is a single round of calls
+      const level = toCheck.splice(0).filter(({ chainId, projectId }) => {
+        const key = `${chainId}-${projectId}`
+        if (checkedCombinations.has(key)) {
+          return false
+        }
+        checkedCombinations.add(key)
+        return true
+      })
+
+      await Promise.all(level.map(async ({ chainId, projectId }) => {
+        const key = `${chainId}-${projectId}`
       
-      try {
-        console.log(`Discovering suckers for project ${projectId} on chain ${chainId}`)
+        try {
+          console.log(`Discovering suckers for project ${projectId} on chain ${chainId}`)
         
-        const rawSuckerPairs = await this.getSuckerPairsForProject(chainId, projectId)
+          const rawSuckerPairs = await this.getSuckerPairsForProject(chainId, projectId)
         
-        // Store the mapping for this project/chain combination
-        projectMappings.set(key, {
-          projectId,
-          chainId,
-          suckerPairs: rawSuckerPairs
-        })
-
-        // Process each raw sucker pair to create proper SuckerPair objects
-        for (const rawPair of rawSuckerPairs) {
-          const pairId = this.createSuckerPairId(
-            chainId, rawPair.local,
-            rawPair.remoteChainId, rawPair.remote
-          )
-          
-          // Skip if we've already processed this pair
-          if (processedPairs.has(pairId)) {
-            continue
-          }
-          
-          try {
-            // Get the project ID for the remote sucker
-            const remoteProjectId = await this.getProjectIdFromSucker(
-              rawPair.remoteChainId, 
-              rawPair.remote as Address
-            )
-            
-            // Create the complete sucker pair
-            const suckerPair: SuckerPair = {
-              id: pairId,
-              chainA: {
-                chainId: chainId,
-                address: rawPair.local,
-                projectId: projectId
-              },
-              chainB: {
-                chainId: rawPair.remoteChainId,
-                address: rawPair.remote,
-                projectId: remoteProjectId
-              }
+          // Store the mapping for this project/chain combination
+          projectMappings.set(key, {
+            projectId,
+            chainId,
+            suckerPairs: rawSuckerPairs
+          })
+
+          // Skip pairs we've already processed from the other side
+          const newPairs = rawSuckerPairs.filter(rawPair => !processedPairs.has(
+            this.createSuckerPairId(chainId, rawPair.local, rawPair.remoteChainId, rawPair.remote)
+          ))
+
+          // Group remote suckers by chain so each chain's project IDs come from one multicall
+          const remotesByChain = new Map<number, JBSuckersPair[]>()
+          newPairs.forEach(rawPair => {
+            if (!remotesByChain.has(rawPair.remoteChainId)) {
+              remotesByChain.set(rawPair.remoteChainId, [])
             }
-            
-            suckerPairs.set(pairId, suckerPair)
-            processedPairs.add(pairId)
-            
-            // Add remote project to queue for processing if not already checked
-            const remoteKey = `${rawPair.remoteChainId}-${remoteProjectId}`
-            if (!checkedCombinations.has(remoteKey)) {
-              toCheck.push({
-                chainId: rawPair.remoteChainId,
-                projectId: remoteProjectId
-              })
+            remotesByChain.get(rawPair.remoteChainId)!.push(rawPair)
+          })
+
+          await Promise.all(Array.from(remotesByChain.entries()).map(async ([remoteChainId, remotePairs]) => {
+            let remoteProjectIds: (string | null)[]
+            try {
+              remoteProjectIds = await this.getProjectIdsFromSuckers(
+                remoteChainId,
+                remotePairs.map(rawPair => rawPair.remote)
+              )
+            } catch (error) {
+              console.warn(`Failed to get project IDs for remote suckers on chain ${remoteChainId}:`, error)
+              return
             }
-          } catch (error) {
-            console.warn(`Failed to get project ID for remote sucker ${rawPair.remote} on chain ${rawPair.remoteChainId}:`, error)
-          }
+
+            remotePairs.forEach((rawPair, i) => {
+              const remoteProjectId = remoteProjectIds[i]
+              if (remoteProjectId === null) {
+                return
+              }
+
+              const pairId = this.createSuckerPairId(
+                chainId, rawPair.local,
+                rawPair.remoteChainId, rawPair.remote
+              )
+
+              // Create the complete sucker pair
+              const suckerPair: SuckerPair = {
+                id: pairId,
+                chainA: {
+                  chainId: chainId,
+                  address: rawPair.local,
+                  projectId: projectId
+                },
+                chainB: {
+                  chainId: rawPair.remoteChainId,
+                  address: rawPair.remote,
+                  projectId: remoteProjectId
+                }
+              }
+
+              suckerPairs.set(pairId, suckerPair)
+              processedPairs.add(pairId)
+
+              // Add remote project to queue for processing if not already checked
+              const remoteKey = `${rawPair.remoteChainId}-${remoteProjectId}`
+              if (!checkedCombinations.has(remoteKey)) {
+                toCheck.push({
+                  chainId: rawPair.remoteChainId,
+                  projectId: remoteProjectId
+                })
+              }
+            })
+          }))
+        } catch (error) {
+          console.error(`Failed to discover suckers for project ${projectId} on chain ${chainId}:`, error)
         }
-      } catch (error) {
-        console.error(`Failed to discover suckers for project ${projectId} on chain ${chainId}:`, error)
-      }
+      }))
     }
 
     // Now detect bridge implementations for all discovered pairs
@@ -182,7 +227,7 @@ export class SuckerDiscoveryService {
   }
 
   /**
-   * Populate bridge information for all sucker pairs sequentially
+   * Populate bridge information for all sucker pairs, one multicall per chain
    */
   private async populateBridgeInfo(suckerPairs: Map<string, SuckerPair>): Promise<void> {
     const allSuckers: Array<{ chainId: number; address: Address; pairId: string; side: 'chainA' | 'chainB' }> = []
@@ -191,43 +236,29 @@ export class SuckerDiscoveryService {
     for (const [pairId, pair] of suckerPairs.entries()) {
       allSuckers.push({
         chainId: pair.chainA.chainId,
-        address: pair.chainA.address as Address,
+        address: pair.chainA.address,
         pairId,
         side: 'chainA'
       })
       allSuckers.push({
         chainId: pair.chainB.chainId,
-        address: pair.chainB.address as Address,
+        address: pair.chainB.address,
         pairId,
         side: 'chainB'
       })
     }
 
-    // Detect bridge implementations sequentially
-    for (const sucker of allSuckers) {
-      try {
-        console.log(`Detecting bridge for sucker ${sucker.address} on chain ${sucker.chainId}`)
-        const bridgeInfo = await bridgeDetectionService.detectSuckerBridge(sucker.chainId, sucker.address)
-        
-        // Update the pair with bridge info
-        const pair = suckerPairs.get(sucker.pairId)
-        if (pair) {
-          pair[sucker.side].bridgeInfo = bridgeInfo
-        }
-      } catch (error) {
-        console.warn(`Failed to detect bridge for sucker ${sucker.address} on chain ${sucker.chainId}:`, error)
-        // Set unknown bridge info as fallback
-        const pair = suckerPairs.get(sucker.pairId)
-        if (pair) {
-          pair[sucker.side].bridgeInfo = {
-            suckerAddress: sucker.address.toLowerCase(),
-            chainId: sucker.chainId,
-            deployerAddress: 'unknown',
-            bridgeInfo: bridgeDetectionService.getBridgeInfo('unknown')
-          }
-        }
+    // Detect bridge implementations for every sucker, batched per chain
+    const bridgeInfos = await bridgeDetectionService.detectMultipleSuckerBridges(
+      allSuckers.map(({ chainId, address }) => ({ chainId, address }))
+    )
+
+    allSuckers.forEach((sucker, i) => {
+      const pair = suckerPairs.get(sucker.pairId)
+      if (pair) {
+        pair[sucker.side].bridgeInfo = bridgeInfos[i]
       }
-    }
+    })
   }
 }
 
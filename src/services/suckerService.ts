@@ -1,6 +1,10 @@
-import { type Address, parseUnits, type Hash, decodeEventLog } from 'viem'
-import { getSharedPublicClient } from '@/utils/clientUtils'
-import { type JBOutboxTree, type JBClaim } from '@/types/bridge'
+import { type Address, type Hex, parseUnits, type Hash, type TransactionReceipt, BaseError, ContractFunctionRevertedError, TransactionNotFoundError, decodeEventLog, parseEventLogs } from 'viem'
+import { waitForCallsStatus } from '@wagmi/core'
+import { getSharedPublicClient, getSharedWebSocketClient } from '@/utils/clientUtils'
+import { LOG_CHUNK_SIZE, MAX_LOG_CHUNKS } from '@/utils/logUtils'
+import { config } from '@/utils/wagmiConfig'
+import { type JBOutboxTree, type JBInboxTreeRoot, type JBClaim } from '@/types/bridge'
+import { type StoredBridgeTransaction } from './bridgeStorageService'
 
 const SUCKER_ABI = [
   {
@@ -50,6 +54,32 @@ const SUCKER_ABI = [
     ],
     outputs: []
   },
+  {
+    name: 'claim',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      {
+        name: 'claims',
+        type: 'tuple[]',
+        components: [
+          { name: 'token', type: 'address' },
+          {
+            name: 'leaf',
+            type: 'tuple',
+            components: [
+              { name: 'index', type: 'uint256' },
+              { name: 'beneficiary', type: 'address' },
+              { name: 'projectTokenCount', type: 'uint256' },
+              { name: 'terminalTokenAmount', type: 'uint256' }
+            ]
+          },
+          { name: 'proof', type: 'bytes32[32]' }
+        ]
+      }
+    ],
+    outputs: []
+  },
   {
     name: 'outboxOf',
     type: 'function',
@@ -76,6 +106,60 @@ const SUCKER_ABI = [
         ]
       }
     ]
+  },
+  {
+    name: 'inboxOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'nonce', type: 'uint64' },
+          { name: 'root', type: 'bytes32' }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'peer',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }]
+  },
+  {
+    name: 'JBSucker_LeafAlreadyExecuted',
+    type: 'error',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'index', type: 'uint256' }
+    ]
+  },
+  {
+    name: 'remoteTokenFor',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'enabled', type: 'bool' },
+          { name: 'emergencyHatch', type: 'bool' },
+          { name: 'minGas', type: 'uint32' },
+          { name: 'addr', type: 'address' },
+          { name: 'minBridgeAmount', type: 'uint256' }
+        ]
+      }
+    ]
   }
 ] as const
 
@@ -97,6 +181,35 @@ const INSERT_TO_OUTBOX_TREE_EVENT_ABI = [
   }
 ] as const
 
+const ROOT_TO_REMOTE_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'root', type: 'bytes32' },
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'index', type: 'uint256' },
+      { indexed: false, name: 'nonce', type: 'uint64' },
+      { indexed: false, name: 'caller', type: 'address' }
+    ],
+    name: 'RootToRemote',
+    type: 'event'
+  }
+] as const
+
+const NEW_INBOX_TREE_ROOT_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'token', type: 'address' },
+      { indexed: false, name: 'nonce', type: 'uint64' },
+      { indexed: false, name: 'root', type: 'bytes32' },
+      { indexed: false, name: 'caller', type: 'address' }
+    ],
+    name: 'NewInboxTreeRoot',
+    type: 'event'
+  }
+] as const
+
 const CLAIM_EVENT_ABI = [
   {
     anonymous: false,
@@ -112,13 +225,55 @@ const CLAIM_EVENT_ABI = [
   }
 ] as const
 
+const SUCKER_EVENTS_ABI = [
+  ...INSERT_TO_OUTBOX_TREE_EVENT_ABI,
+  ...ROOT_TO_REMOTE_EVENT_ABI,
+  ...NEW_INBOX_TREE_ROOT_EVENT_ABI,
+  ...CLAIM_EVENT_ABI
+] as const
+
+// Filter polling interval for chains without a WebSocket endpoint
+const EVENT_POLLING_INTERVAL = 10000
+
+export interface RemoteTokenMapping {
+  enabled: boolean
+  emergencyHatch: boolean
+  minGas: number // Gas the remote chain needs to receive the token
+  addr: Address
+  minBridgeAmount: bigint
+}
+
 export interface PrepareParams {
   projectTokenCount: string
   beneficiary: Address
-  minTokensReclaimed: string
+  minTokensReclaimed: string // Terminal token base units
   token: Address
 }
 
+export interface PreparePreview {
+  terminalTokenAmount: bigint | null // Null when the RPC can't simulate with logs
+  revertReason: string | null
+}
+
+// A call that has to land before prepare() in a simulation, e.g. the token approval or permit
+export interface PrecedingCall {
+  to: Address
+  data: Hex
+}
+
+/**
+ * Get a readable reason from a simulation error, preferring the decoded custom error name
+ */
+function getRevertReason(error: unknown): string {
+  const revert = error instanceof BaseError
+    ? error.walk(e => e instanceof ContractFunctionRevertedError)
+    : null
+  if (revert instanceof ContractFunctionRevertedError) {
+    return revert.data?.errorName ?? revert.reason ?? revert.shortMessage
+  }
+  return error instanceof BaseError ? error.shortMessage : 'Simulation failed'
+}
+
 export interface InsertToOutboxTreeEvent {
   beneficiary: Address
   token: Address
@@ -130,6 +285,38 @@ export interface InsertToOutboxTreeEvent {
   caller: Address
 }
 
+export interface PrepareOutcome {
+  transactionHash: Hash // The transaction that landed, which differs from the sent one if it was sped up
+  reverted: boolean
+  event: InsertToOutboxTreeEvent | null
+}
+
+// How long to wait for a prepare() receipt before giving up until the next check
+const PREPARE_RECEIPT_TIMEOUT = 180000 // 3 minutes
+
+export interface InsertToOutboxTreeLog extends InsertToOutboxTreeEvent {
+  blockNumber: bigint
+  transactionHash: Hash
+}
+
+export interface RootToRemoteLog {
+  root: string
+  token: Address
+  index: string // Index of the last leaf included in the sent root
+  nonce: string
+  caller: Address
+  blockNumber: bigint
+  transactionHash: Hash
+}
+
+export interface NewInboxTreeRootLog {
+  token: Address
+  nonce: string
+  root: string
+  blockNumber: bigint
+  transactionHash: Hash
+}
+
 export interface ClaimEvent {
   beneficiary: Address
   token: Address
@@ -138,7 +325,20 @@ export interface ClaimEvent {
   caller: Address
 }
 
+export type SuckerEventName = 'InsertToOutboxTree' | 'RootToRemote' | 'NewInboxTreeRoot' | 'Claim'
+
+export interface SuckerEvent {
+  chainId: number
+  suckerAddress: Address
+  eventName: SuckerEventName
+  token?: Address // Token on the emitting chain
+  transactionHash: Hash | null
+}
+
 class SuckerService {
+  // Deploy blocks found per sucker, keyed by chain ID and address
+  private deployBlocks = new Map<string, bigint>()
+
   async getOutboxTree(
     chainId: number,
     suckerAddress: Address,
@@ -169,54 +369,432 @@ class SuckerService {
     }
   }
 
-  async listenForInsertToOutboxTreeEvent(
+  async getInboxTreeRoot(
     chainId: number,
     suckerAddress: Address,
-    transactionHash: Hash,
-    onEvent: (event: InsertToOutboxTreeEvent) => void
-  ): Promise<void> {
+    tokenAddress: Address
+  ): Promise<JBInboxTreeRoot> {
     try {
       const client = getSharedPublicClient(chainId)
-      
-      // Get the transaction receipt to find the block number
-      const receipt = await client.waitForTransactionReceipt({
-        hash: transactionHash
+
+      const result = await client.readContract({
+        address: suckerAddress,
+        abi: SUCKER_ABI,
+        functionName: 'inboxOf',
+        args: [tokenAddress]
       })
 
-      // Get logs for the InsertToOutboxTree event from this transaction
+      return {
+        nonce: Number(result.nonce),
+        root: result.root
+      }
+    } catch (error) {
+      console.error('Failed to get inbox tree root:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Wait for a permit + prepare() batch sent with wallet_sendCalls and get the prepare() transaction hash.
+   * Null if the batch failed without anything landing. Needs the wallet that sent the batch to be connected.
+   */
+  async waitForPrepareCallsHash(callsId: string, timeout = PREPARE_RECEIPT_TIMEOUT): Promise<Hash | null> {
+    const result = await waitForCallsStatus(config, { id: callsId, timeout })
+    return result.receipts?.at(-1)?.transactionHash ?? null
+  }
+
+  /**
+   * Check whether a node knows a transaction, mined or still pending. Other RPC errors are thrown,
+   * so a flaky node isn't mistaken for a dropped transaction.
+   */
+  async isTransactionKnown(chainId: number, transactionHash: Hash): Promise<boolean> {
+    try {
+      await getSharedPublicClient(chainId).getTransaction({ hash: transactionHash })
+      return true
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Wait for a prepare() transaction and decode the leaf it inserted. Follows speed-ups and replacements,
+   * so the returned hash is the transaction that actually landed. Throws if it doesn't land within the timeout.
+   */
+  async waitForPrepareOutcome(
+    chainId: number,
+    suckerAddress: Address,
+    transactionHash: Hash,
+    timeout = PREPARE_RECEIPT_TIMEOUT
+  ): Promise<PrepareOutcome> {
+    const client = getSharedPublicClient(chainId)
+    const receipt = await client.waitForTransactionReceipt({ hash: transactionHash, timeout })
+
+    if (receipt.status === 'reverted') {
+      return { transactionHash: receipt.transactionHash, reverted: true, event: null }
+    }
+
+    const [inserted] = parseEventLogs({
+      abi: INSERT_TO_OUTBOX_TREE_EVENT_ABI,
+      eventName: 'InsertToOutboxTree',
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === suckerAddress.toLowerCase())
+    })
+
+    return {
+      transactionHash: receipt.transactionHash,
+      reverted: false,
+      event: inserted ? {
+        beneficiary: inserted.args.beneficiary,
+        token: inserted.args.token,
+        hashed: inserted.args.hashed,
+        index: inserted.args.index.toString(),
+        root: inserted.args.root,
+        projectTokenCount: inserted.args.projectTokenCount.toString(),
+        terminalTokenAmount: inserted.args.terminalTokenAmount.toString(),
+        caller: inserted.args.caller
+      } : null
+    }
+  }
+
+  /**
+   * Find the block a sucker was deployed in by binary searching for its code over history.
+   * Needs an RPC that serves historical state; returns null when it doesn't.
+   */
+  async getDeployBlock(chainId: number, suckerAddress: Address): Promise<bigint | null> {
+    const key = `${chainId}-${suckerAddress.toLowerCase()}`
+    const cached = this.deployBlocks.get(key)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    try {
+      const client = getSharedPublicClient(chainId)
+      let low = BigInt(0)
+      let high = await client.getBlockNumber()
+
+      // Find the first block with code at the address
+      while (low < high) {
+        const mid = (low + high) / BigInt(2)
+        const code = await client.getCode({ address: suckerAddress, blockNumber: mid })
+        if (code && code !== '0x') {
+          high = mid
+        } else {
+          low = mid + BigInt(1)
+        }
+      }
+
+      this.deployBlocks.set(key, low)
+      return low
+    } catch (error) {
+      console.warn(`Failed to find the deploy block of sucker ${suckerAddress} on chain ${chainId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Get InsertToOutboxTree logs for a sucker/token over a block range,
+   * optionally only those to some beneficiaries (filtered by the node on the indexed topic)
+   */
+  async getInsertToOutboxTreeLogs(
+    chainId: number,
+    suckerAddress: Address,
+    tokenAddress: Address,
+    fromBlock: bigint | 'earliest',
+    toBlock: bigint | 'latest',
+    beneficiaries?: Address[]
+  ): Promise<InsertToOutboxTreeLog[]> {
+    const client = getSharedPublicClient(chainId)
+
+    const logs = await client.getLogs({
+      address: suckerAddress,
+      event: INSERT_TO_OUTBOX_TREE_EVENT_ABI[0],
+      args: { token: tokenAddress, beneficiary: beneficiaries },
+      fromBlock,
+      toBlock
+    })
+
+    return logs.map(log => ({
+      beneficiary: log.args.beneficiary!,
+      token: log.args.token!,
+      hashed: log.args.hashed!,
+      index: log.args.index!.toString(),
+      root: log.args.root!,
+      projectTokenCount: log.args.projectTokenCount!.toString(),
+      terminalTokenAmount: log.args.terminalTokenAmount!.toString(),
+      caller: log.args.caller!,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash
+    }))
+  }
+  /**
+   * Get every InsertToOutboxTree log of a sucker/token to some beneficiaries.
+   * Tries the full range at once, then scans forward in chunks from the sucker's deploy block.
+   * Throws if the chunk limit is reached before the latest block.
+   */
+  async getBeneficiaryOutboxLogs(
+    chainId: number,
+    suckerAddress: Address,
+    tokenAddress: Address,
+    beneficiaries: Address[]
+  ): Promise<InsertToOutboxTreeLog[]> {
+    const client = getSharedPublicClient(chainId)
+    const latestBlock = await client.getBlockNumber()
+
+    try {
+      return await this.getInsertToOutboxTreeLogs(chainId, suckerAddress, tokenAddress, 'earliest', latestBlock, beneficiaries)
+    } catch (error) {
+      console.warn('Full-range InsertToOutboxTree query failed, scanning in chunks:', error)
+    }
+
+    const fromBlock = await this.getDeployBlock(chainId, suckerAddress)
+    if (fromBlock === null) {
+      throw new Error(`Deploy block of sucker ${suckerAddress} on chain ${chainId} is unknown, can't scan its logs in chunks`)
+    }
+
+    const logs: InsertToOutboxTreeLog[] = []
+    let start = fromBlock
+    for (let chunk = 0; chunk < MAX_LOG_CHUNKS && start <= latestBlock; chunk++, start += LOG_CHUNK_SIZE) {
+      const end = start + LOG_CHUNK_SIZE - BigInt(1) < latestBlock ? start + LOG_CHUNK_SIZE - BigInt(1) : latestBlock
+      logs.push(...await this.getInsertToOutboxTreeLogs(chainId, suckerAddress, tokenAddress, start, end, beneficiaries))
+    }
+    // A partial scan would pass for a complete history, so it's an error instead
+    if (start <= latestBlock) {
+      throw new Error(`InsertToOutboxTree scan of sucker ${suckerAddress} on chain ${chainId} hit the chunk limit at block ${start}`)
+    }
+    return logs
+  }
+
+
+  /**
+   * Get RootToRemote logs (emitted by toRemote()) for a sucker/token over a block range
+   */
+  async getRootToRemoteLogs(
+    chainId: number,
+    suckerAddress: Address,
+    tokenAddress: Address,
+    fromBlock: bigint | 'earliest',
+    toBlock: bigint | 'latest'
+  ): Promise<RootToRemoteLog[]> {
+    const client = getSharedPublicClient(chainId)
+
+    const logs = await client.getLogs({
+      address: suckerAddress,
+      event: ROOT_TO_REMOTE_EVENT_ABI[0],
+      args: { token: tokenAddress },
+      fromBlock,
+      toBlock
+    })
+
+    return logs.map(log => ({
+      root: log.args.root!,
+      token: log.args.token!,
+      index: log.args.index!.toString(),
+      nonce: log.args.nonce!.toString(),
+      caller: log.args.caller!,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash
+    }))
+  }
+
+  /**
+   * Get every RootToRemote log for a sucker/token from a block on, in chunks if the range is too large.
+   * Throws if the chunk limit is reached before the latest block.
+   */
+  async getRootToRemoteLogsSince(
+    chainId: number,
+    suckerAddress: Address,
+    tokenAddress: Address,
+    fromBlock: bigint
+  ): Promise<RootToRemoteLog[]> {
+    const client = getSharedPublicClient(chainId)
+    const latestBlock = await client.getBlockNumber()
+
+    try {
+      return await this.getRootToRemoteLogs(chainId, suckerAddress, tokenAddress, fromBlock, latestBlock)
+    } catch (error) {
+      console.warn('Full-range RootToRemote query failed, scanning in chunks:', error)
+    }
+
+    const logs: RootToRemoteLog[] = []
+    let start = fromBlock
+    for (let chunk = 0; chunk < MAX_LOG_CHUNKS && start <= latestBlock; chunk++, start += LOG_CHUNK_SIZE) {
+      const end = start + LOG_CHUNK_SIZE - BigInt(1) < latestBlock ? start + LOG_CHUNK_SIZE - BigInt(1) : latestBlock
+      logs.push(...await this.getRootToRemoteLogs(chainId, suckerAddress, tokenAddress, start, end))
+    }
+    if (start <= latestBlock) {
+      throw new Error(`RootToRemote scan of sucker ${suckerAddress} on chain ${chainId} hit the chunk limit at block ${start}`)
+    }
+    return logs
+  }
+
+  /**
+   * Find the RootToRemote log of the toRemote() call that sent the root containing a leaf.
+   * Roots are sent in order, so it's the first one at or past the leaf's index.
+   */
+  async findRootToRemoteLog(
+    chainId: number,
+    suckerAddress: Address,
+    tokenAddress: Address,
+    leafIndex: bigint,
+    fromBlock: bigint
+  ): Promise<RootToRemoteLog | null> {
+    const client = getSharedPublicClient(chainId)
+    const latestBlock = await client.getBlockNumber()
+    const findMatch = (logs: RootToRemoteLog[]) => logs.find(log => BigInt(log.index) >= leafIndex) ?? null
+
+    try {
+      return findMatch(await this.getRootToRemoteLogs(chainId, suckerAddress, tokenAddress, fromBlock, latestBlock))
+    } catch (error) {
+      console.warn('Full-range RootToRemote query failed, scanning in chunks:', error)
+    }
+
+    for (let chunk = 0, start = fromBlock; chunk < MAX_LOG_CHUNKS && start <= latestBlock; chunk++, start += LOG_CHUNK_SIZE) {
+      const end = start + LOG_CHUNK_SIZE - BigInt(1) < latestBlock ? start + LOG_CHUNK_SIZE - BigInt(1) : latestBlock
+      const match = findMatch(await this.getRootToRemoteLogs(chainId, suckerAddress, tokenAddress, start, end))
+      if (match) {
+        return match
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Find the NewInboxTreeRoot log where a destination inbox first reached a nonce.
+   * Arrival is usually recent when we look for it, so this scans back from the latest block.
+   */
+  async findNewInboxTreeRootLog(
+    chainId: number,
+    suckerAddress: Address,
+    tokenAddress: Address,
+    nonce: bigint
+  ): Promise<NewInboxTreeRootLog | null> {
+    const client = getSharedPublicClient(chainId)
+    const latestBlock = await client.getBlockNumber()
+
+    let found: NewInboxTreeRootLog | null = null
+    for (let chunk = 0, end = latestBlock; chunk < MAX_LOG_CHUNKS && end >= BigInt(0); chunk++, end -= LOG_CHUNK_SIZE) {
+      const start = end >= LOG_CHUNK_SIZE ? end - LOG_CHUNK_SIZE + BigInt(1) : BigInt(0)
       const logs = await client.getLogs({
         address: suckerAddress,
-        event: INSERT_TO_OUTBOX_TREE_EVENT_ABI[0],
-        fromBlock: receipt.blockNumber,
-        toBlock: receipt.blockNumber
+        event: NEW_INBOX_TREE_ROOT_EVENT_ABI[0],
+        args: { token: tokenAddress },
+        fromBlock: start,
+        toBlock: end
       })
 
-      // Find the log from our transaction
-      const eventLog = logs.find(log => log.transactionHash === transactionHash)
-      
-      if (eventLog && eventLog.args) {
-        const event: InsertToOutboxTreeEvent = {
-          beneficiary: eventLog.args.beneficiary!,
-          token: eventLog.args.token!,
-          hashed: eventLog.args.hashed!,
-          index: eventLog.args.index!.toString(),
-          root: eventLog.args.root!,
-          projectTokenCount: eventLog.args.projectTokenCount!.toString(),
-          terminalTokenAmount: eventLog.args.terminalTokenAmount!.toString(),
-          caller: eventLog.args.caller!
+      // Roots can skip nonces, so keep the earliest one at or past ours
+      const matches = logs.filter(log => log.args.nonce! >= nonce)
+      if (matches.length > 0) {
+        const log = matches[0]
+        found = {
+          token: log.args.token!,
+          nonce: log.args.nonce!.toString(),
+          root: log.args.root!,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash
         }
-        
-        onEvent(event)
       }
-    } catch (error) {
-      console.error('Failed to listen for InsertToOutboxTree event:', error)
-      throw error
+      // Nonces only go up, so an exact match or an older root in this range means it's the earliest
+      if (found?.nonce === nonce.toString() || matches.length < logs.length || start === BigInt(0)) {
+        break
+      }
+    }
+
+    return found
+  }
+
+  /**
+   * Get the receipt of the toRemote() call that sent a transaction's leaf, using the stored
+   * hash when there is one and searching RootToRemote logs from the prepare block otherwise
+   */
+  async getToRemoteReceipt(transaction: StoredBridgeTransaction): Promise<TransactionReceipt | null> {
+    const client = getSharedPublicClient(transaction.sourceChainId)
+
+    let toRemoteTransactionHash = transaction.toRemoteTransactionHash as Hash | undefined
+    if (!toRemoteTransactionHash) {
+      // The root can't have been sent before the leaf was inserted, or before the sucker existed
+      let fromBlock: bigint | null = null
+      if (transaction.transactionHash) {
+        try {
+          const receipt = await client.getTransactionReceipt({ hash: transaction.transactionHash as Hash })
+          fromBlock = receipt.blockNumber
+        } catch (error) {
+          console.warn(`Failed to get prepare receipt ${transaction.transactionHash}:`, error)
+        }
+      }
+      if (fromBlock === null) {
+        fromBlock = await this.getDeployBlock(transaction.sourceChainId, transaction.suckerAddress)
+      }
+      if (fromBlock === null) {
+        console.warn(`No lower bound to scan RootToRemote events from for transaction ${transaction.id}`)
+        return null
+      }
+
+      const rootToRemote = await this.findRootToRemoteLog(
+        transaction.sourceChainId,
+        transaction.suckerAddress,
+        transaction.token,
+        BigInt(transaction.index),
+        fromBlock
+      )
+      if (!rootToRemote) {
+        return null
+      }
+      toRemoteTransactionHash = rootToRemote.transactionHash
     }
+
+    return client.getTransactionReceipt({ hash: toRemoteTransactionHash })
+  }
+
+  /**
+   * Get the token a local terminal token is mapped to on the remote chain
+   */
+  async getRemoteToken(chainId: number, suckerAddress: Address, tokenAddress: Address): Promise<Address> {
+    const mapping = await this.getRemoteTokenMapping(chainId, suckerAddress, tokenAddress)
+    return mapping.addr
+  }
+
+  /**
+   * Get the full remote mapping for a local terminal token (remote address, gas and minimum amount)
+   */
+  async getRemoteTokenMapping(chainId: number, suckerAddress: Address, tokenAddress: Address): Promise<RemoteTokenMapping> {
+    const client = getSharedPublicClient(chainId)
+
+    const result = await client.readContract({
+      address: suckerAddress,
+      abi: SUCKER_ABI,
+      functionName: 'remoteTokenFor',
+      args: [tokenAddress]
+    })
+
+    return {
+      enabled: result.enabled,
+      emergencyHatch: result.emergencyHatch,
+      minGas: Number(result.minGas),
+      addr: result.addr,
+      minBridgeAmount: result.minBridgeAmount
+    }
+  }
+
+  /**
+   * Get the sucker's counterpart on the remote chain
+   */
+  async getPeer(chainId: number, suckerAddress: Address): Promise<Address> {
+    const client = getSharedPublicClient(chainId)
+
+    return client.readContract({
+      address: suckerAddress,
+      abi: SUCKER_ABI,
+      functionName: 'peer'
+    })
   }
 
   getPrepareFunctionData(params: PrepareParams, decimals: number) {
     const projectTokenCountBigInt = parseUnits(params.projectTokenCount, decimals)
-    const minTokensReclaimedBigInt = parseUnits(params.minTokensReclaimed, decimals)
+    const minTokensReclaimedBigInt = BigInt(params.minTokensReclaimed)
 
     return {
       address: '0x0000000000000000000000000000000000000000' as Address, // Will be set by caller
@@ -231,25 +809,87 @@ class SuckerService {
     }
   }
 
-  getToRemoteFunctionData(tokenAddress: Address, requiresPayment: boolean = true) {
+  /**
+   * Simulate prepare() for an account. A revert gives its reason; otherwise the InsertToOutboxTree
+   * log from an eth_simulateV1 run gives the terminal token amount, when the RPC supports it.
+   * Preceding calls (an approval or permit that hasn't landed yet) run first in the same simulation,
+   * which needs eth_simulateV1 for the revert check too.
+   */
+  async simulatePrepare(
+    chainId: number,
+    suckerAddress: Address,
+    params: PrepareParams,
+    decimals: number,
+    account: Address,
+    precedingCalls: PrecedingCall[] = []
+  ): Promise<PreparePreview> {
+    const client = getSharedPublicClient(chainId)
+    const contractData = this.getPrepareFunctionData(params, decimals)
+
+    if (precedingCalls.length === 0) {
+      try {
+        await client.simulateContract({
+          address: suckerAddress,
+          abi: contractData.abi,
+          functionName: contractData.functionName,
+          args: contractData.args,
+          account
+        })
+      } catch (error) {
+        return { terminalTokenAmount: null, revertReason: getRevertReason(error) }
+      }
+    }
+
+    try {
+      const { results } = await client.simulateCalls({
+        account,
+        calls: [
+          ...precedingCalls,
+          {
+            to: suckerAddress,
+            abi: contractData.abi,
+            functionName: contractData.functionName,
+            args: contractData.args
+          }
+        ]
+      })
+
+      const failed = results.find(result => result.status === 'failure')
+      if (failed) {
+        return { terminalTokenAmount: null, revertReason: getRevertReason(failed.error) }
+      }
+
+      const [inserted] = parseEventLogs({
+        abi: INSERT_TO_OUTBOX_TREE_EVENT_ABI,
+        eventName: 'InsertToOutboxTree',
+        logs: (results[results.length - 1].logs ?? []).filter(log => log.address.toLowerCase() === suckerAddress.toLowerCase())
+      })
+      if (inserted) {
+        return { terminalTokenAmount: inserted.args.terminalTokenAmount, revertReason: null }
+      }
+    } catch (error) {
+      console.warn(`Could not simulate prepare() with logs on chain ${chainId}:`, error)
+    }
+
+    return { terminalTokenAmount: null, revertReason: null }
+  }
+
+  getToRemoteFunctionData(tokenAddress: Address, value: bigint = BigInt(0)) {
     return {
       address: '0x0000000000000000000000000000000000000000' as Address, // Will be set by caller
       abi: SUCKER_ABI,
       functionName: 'toRemote' as const,
       args: [tokenAddress] as const,
-      value: requiresPayment ? parseUnits('0.01', 18) : BigInt(0) // Only send ETH if payment is required
+      value // Quoted bridge fee (with buffer) from bridgeFeeService, 0 when the bridge isn't paid
     }
   }
 
   /**
-   * Prepare claim function data for calling sucker.claim()
-   * Convert proof from [32][32]byte to bytes32[32]
+   * Normalize a proof to bytes32[32], converting byte arrays from the backend to hex strings
    */
-  getClaimFunctionData(claimData: JBClaim) {
-    console.log('Preparing claim with data:', claimData)
-    
+  normalizeProof(proof: (string | number[])[]) {
     // Convert proof from array of byte arrays to array of hex strings
-    const convertedProof = claimData.Proof.map((byteArray: string | number[]) => {
+    const convertedProof = proof.map((byteArray: string | number[]) => {
       if (Array.isArray(byteArray)) {
         // Convert array of bytes to hex string
         const hexString = '0x' + byteArray.map((byte: number) => 
@@ -273,26 +913,134 @@ class SuckerService {
     }
     const fixedProof = paddedProof.slice(0, 32) as unknown as readonly [`0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`, `0x${string}`]
     
-    console.log('Converted proof length:', fixedProof.length)
-    console.log('First converted proof element:', fixedProof[0])
+    return fixedProof
+  }
+
+  /**
+   * Convert backend claim data into the JBClaim struct the sucker takes
+   */
+  private toClaimArg(claimData: JBClaim) {
+    return {
+      token: claimData.Token as `0x${string}`,
+      leaf: {
+        index: BigInt(claimData.Leaf.Index),
+        beneficiary: claimData.Leaf.Beneficiary as `0x${string}`,
+        projectTokenCount: BigInt(claimData.Leaf.ProjectTokenCount),
+        terminalTokenAmount: BigInt(claimData.Leaf.TerminalTokenAmount)
+      },
+      proof: this.normalizeProof(claimData.Proof)
+    }
+  }
+
+  /**
+   * Prepare claim function data for calling sucker.claim()
+   * Convert proof from [32][32]byte to bytes32[32]
+   */
+  getClaimFunctionData(claimData: JBClaim) {
+    console.log('Preparing claim with data:', claimData)
     
     return {
       address: '0x0000000000000000000000000000000000000000' as Address, // Will be set by caller
       abi: SUCKER_ABI,
       functionName: 'claim' as const,
-      args: [{
-        token: claimData.Token as `0x${string}`,
-        leaf: {
-          index: BigInt(claimData.Leaf.Index),
-          beneficiary: claimData.Leaf.Beneficiary as `0x${string}`,
-          projectTokenCount: BigInt(claimData.Leaf.ProjectTokenCount),
-          terminalTokenAmount: BigInt(claimData.Leaf.TerminalTokenAmount)
-        },
-        proof: fixedProof
-      }] as const
+      args: [this.toClaimArg(claimData)] as const
     }
   }
 
+  /**
+   * Prepare function data for the batch claim(JBClaim[]) overload
+   */
+  getBatchClaimFunctionData(claims: JBClaim[]) {
+    return {
+      address: '0x0000000000000000000000000000000000000000' as Address, // Will be set by caller
+      abi: SUCKER_ABI,
+      functionName: 'claim' as const,
+      args: [claims.map(claimData => this.toClaimArg(claimData))] as const
+    }
+  }
+
+  /**
+   * Check whether a sucker accepts a batch claim by simulating it. Older suckers without
+   * the overload (or a batch with a bad claim) revert, and callers should claim one by one.
+   */
+  async canBatchClaim(chainId: number, suckerAddress: Address, claims: JBClaim[], account: Address): Promise<boolean> {
+    try {
+      const client = getSharedPublicClient(chainId)
+      const contractData = this.getBatchClaimFunctionData(claims)
+      await client.simulateContract({
+        address: suckerAddress,
+        abi: contractData.abi,
+        functionName: contractData.functionName,
+        args: contractData.args,
+        account
+      })
+      return true
+    } catch (error) {
+      console.warn(`Batch claim not available on sucker ${suckerAddress}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Check whether a leaf has already been claimed on the destination sucker by simulating its claim.
+   * The executed bitmap isn't public, but claiming an executed leaf reverts with LeafAlreadyExecuted.
+   * Returns null when the simulation fails for another reason (e.g. the root hasn't arrived).
+   */
+  async isLeafExecuted(chainId: number, suckerAddress: Address, claimData: JBClaim): Promise<boolean | null> {
+    const client = getSharedPublicClient(chainId)
+
+    try {
+      await client.simulateContract({
+        address: suckerAddress,
+        abi: SUCKER_ABI,
+        functionName: 'claim',
+        args: [this.toClaimArg(claimData)]
+      })
+      return false
+    } catch (error) {
+      const revert = error instanceof BaseError
+        ? error.walk(e => e instanceof ContractFunctionRevertedError)
+        : null
+      if (revert instanceof ContractFunctionRevertedError && revert.data?.errorName === 'JBSucker_LeafAlreadyExecuted') {
+        return true
+      }
+      return null
+    }
+  }
+
+  /**
+   * Watch the bridge lifecycle events of a chain's suckers. Subscribes over WebSocket when the chain has
+   * a WebSocket URL configured, otherwise polls a log filter. Returns a function that stops watching.
+   */
+  watchSuckerEvents(
+    chainId: number,
+    suckerAddresses: Address[],
+    onEvent: (event: SuckerEvent) => void
+  ): () => void {
+    const client = getSharedWebSocketClient(chainId) ?? getSharedPublicClient(chainId)
+
+    return client.watchContractEvent({
+      address: suckerAddresses,
+      abi: SUCKER_EVENTS_ABI,
+      strict: true,
+      pollingInterval: EVENT_POLLING_INTERVAL,
+      onLogs: (logs) => {
+        for (const log of logs) {
+          onEvent({
+            chainId,
+            suckerAddress: log.address,
+            eventName: log.eventName,
+            token: (log.args as { token?: Address }).token,
+            transactionHash: log.transactionHash
+          })
+        }
+      },
+      onError: (error) => {
+        console.warn(`Sucker event watch failed on chain ${chainId}:`, error)
+      }
+    })
+  }
+
   /**
    * Listen for Claim event after transaction confirmation
    */
@@ -334,25 +1082,26 @@ class SuckerService {
         throw new Error('No Claim event found in transaction receipt')
       }
       
-      // Process the first claim event
-      const claimLog = claimLogs[0]
-      const decoded = decodeEventLog({
-        abi: CLAIM_EVENT_ABI,
-        data: claimLog.data,
-        topics: claimLog.topics,
-      })
-      
-      if (decoded.eventName === 'Claim') {
-        const event: ClaimEvent = {
-          beneficiary: decoded.args.beneficiary,
-          token: decoded.args.token,
-          projectTokenCount: decoded.args.projectTokenCount.toString(),
-          terminalTokenAmount: decoded.args.terminalTokenAmount.toString(),
-          caller: decoded.args.caller
-        }
+      // A batch claim emits one Claim per leaf
+      for (const claimLog of claimLogs) {
+        const decoded = decodeEventLog({
+          abi: CLAIM_EVENT_ABI,
+          data: claimLog.data,
+          topics: claimLog.topics,
+        })
         
-        console.log('Claim event captured:', event)
-        onEvent(event)
+        if (decoded.eventName === 'Claim') {
+          const event: ClaimEvent = {
+            beneficiary: decoded.args.beneficiary,
+            token: decoded.args.token,
+            projectTokenCount: decoded.args.projectTokenCount.toString(),
+            terminalTokenAmount: decoded.args.terminalTokenAmount.toString(),
+            caller: decoded.args.caller
+          }
+          
+          console.log('Claim event captured:', event)
+          onEvent(event)
+        }
       }
       
     } catch (error) {
@@ -1,4 +1,4 @@
-import { type Address, parseUnits, formatUnits } from 'viem'
+import { type Address, type Hex, parseUnits, formatUnits, domainSeparator, parseSignature } from 'viem'
 import { getSharedPublicClient } from '@/utils/clientUtils'
 
 const ERC20_ABI = [
@@ -38,6 +38,74 @@ const ERC20_ABI = [
   }
 ] as const
 
+// EIP-2612 permit, plus EIP-5267 for reading the signing domain's version
+const ERC20_PERMIT_ABI = [
+  {
+    name: 'name',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }]
+  },
+  {
+    name: 'nonces',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    name: 'DOMAIN_SEPARATOR',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'bytes32' }]
+  },
+  {
+    name: 'eip712Domain',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'fields', type: 'bytes1' },
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+      { name: 'salt', type: 'bytes32' },
+      { name: 'extensions', type: 'uint256[]' }
+    ]
+  },
+  {
+    name: 'permit',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' }
+    ],
+    outputs: []
+  }
+] as const
+
+export interface PermitSupport {
+  name: string
+  version: string
+  nonce: bigint
+}
+
+export interface PermitParams {
+  owner: Address
+  spender: Address
+  value: bigint
+  deadline: bigint
+}
+
 class TokenService {
   async getTokenBalance(
     chainId: number,
@@ -138,6 +206,80 @@ class TokenService {
     }
   }
 
+  /**
+   * Check whether a token accepts EIP-2612 permits from an owner. The domain separator is rebuilt
+   * from the token's name and version and compared, so tokens with a non-standard domain are skipped.
+   */
+  async getPermitSupport(chainId: number, tokenAddress: Address, ownerAddress: Address): Promise<PermitSupport | null> {
+    const client = getSharedPublicClient(chainId)
+
+    try {
+      const [name, nonce, separator] = await Promise.all([
+        client.readContract({ address: tokenAddress, abi: ERC20_PERMIT_ABI, functionName: 'name' }),
+        client.readContract({ address: tokenAddress, abi: ERC20_PERMIT_ABI, functionName: 'nonces', args: [ownerAddress] }),
+        client.readContract({ address: tokenAddress, abi: ERC20_PERMIT_ABI, functionName: 'DOMAIN_SEPARATOR' })
+      ])
+
+      // OpenZeppelin's ERC20Permit uses version "1"; EIP-5267 tokens tell us
+      let version = '1'
+      try {
+        const domain = await client.readContract({ address: tokenAddress, abi: ERC20_PERMIT_ABI, functionName: 'eip712Domain' })
+        version = domain[2]
+      } catch {
+        // No EIP-5267 support
+      }
+
+      const expected = domainSeparator({ domain: { name, version, chainId, verifyingContract: tokenAddress } })
+      if (expected.toLowerCase() !== separator.toLowerCase()) {
+        console.warn(`Token ${tokenAddress} has a permit domain we can't reproduce`)
+        return null
+      }
+
+      return { name, version, nonce }
+    } catch {
+      // No permit support
+      return null
+    }
+  }
+
+  /**
+   * Typed data for an EIP-2612 permit signature
+   */
+  getPermitTypedData(chainId: number, tokenAddress: Address, support: PermitSupport, params: PermitParams) {
+    return {
+      domain: { name: support.name, version: support.version, chainId, verifyingContract: tokenAddress },
+      types: {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' }
+        ]
+      },
+      primaryType: 'Permit' as const,
+      message: { ...params, nonce: support.nonce }
+    }
+  }
+
+  getApproveFunctionData(spender: Address, amount: bigint) {
+    return {
+      abi: ERC20_ABI,
+      functionName: 'approve' as const,
+      args: [spender, amount] as const
+    }
+  }
+
+  getPermitFunctionData(params: PermitParams, signature: Hex) {
+    const { r, s, v, yParity } = parseSignature(signature)
+
+    return {
+      abi: ERC20_PERMIT_ABI,
+      functionName: 'permit' as const,
+      args: [params.owner, params.spender, params.value, params.deadline, Number(v ?? BigInt(yParity + 27)), r, s] as const
+    }
+  }
+
   formatTokenAmount(amount: bigint, decimals: number): string {
     return formatUnits(amount, decimals)
   }
@@ -0,0 +1,80 @@
+import { type Address, getAddress } from 'viem'
+
+const STORAGE_KEY = 'juicerkle-watchlist'
+
+export interface WatchedAddress {
+  address: Address
+  label?: string
+}
+
+export interface WatchedProject {
+  chainId: number
+  projectId: string
+}
+
+export interface Watchlist {
+  addresses: WatchedAddress[] // Beneficiaries to track without connecting their wallets
+  projects: WatchedProject[] // Projects whose suckers are scanned for those beneficiaries
+}
+
+class WatchlistService {
+  getWatchlist(): Watchlist {
+    if (typeof window === 'undefined') {
+      return { addresses: [], projects: [] }
+    }
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      const parsed = stored ? JSON.parse(stored) as Partial<Watchlist> : {}
+      return { addresses: parsed.addresses ?? [], projects: parsed.projects ?? [] }
+    } catch (error) {
+      console.error('Failed to load watchlist:', error)
+      return { addresses: [], projects: [] }
+    }
+  }
+
+  private saveWatchlist(watchlist: Watchlist): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(watchlist))
+      window.dispatchEvent(new CustomEvent('watchlist-updated'))
+    } catch (error) {
+      console.error('Failed to save watchlist:', error)
+    }
+  }
+
+  isWatched(address: Address): boolean {
+    return this.getWatchlist().addresses.some(watched => watched.address.toLowerCase() === address.toLowerCase())
+  }
+
+  addAddress(address: Address, label?: string): void {
+    const watchlist = this.getWatchlist()
+    const addresses = watchlist.addresses.filter(watched => watched.address.toLowerCase() !== address.toLowerCase())
+    this.saveWatchlist({ ...watchlist, addresses: [...addresses, { address: getAddress(address), label: label?.trim() || undefined }] })
+  }
+
+  removeAddress(address: Address): void {
+    const watchlist = this.getWatchlist()
+    this.saveWatchlist({
+      ...watchlist,
+      addresses: watchlist.addresses.filter(watched => watched.address.toLowerCase() !== address.toLowerCase())
+    })
+  }
+
+  addProject(chainId: number, projectId: string): void {
+    const watchlist = this.getWatchlist()
+    if (watchlist.projects.some(project => project.chainId === chainId && project.projectId === projectId)) {
+      return
+    }
+    this.saveWatchlist({ ...watchlist, projects: [...watchlist.projects, { chainId, projectId }] })
+  }
+
+  removeProject(chainId: number, projectId: string): void {
+    const watchlist = this.getWatchlist()
+    this.saveWatchlist({
+      ...watchlist,
+      projects: watchlist.projects.filter(project => !(project.chainId === chainId && project.projectId === projectId))
+    })
+  }
+}
+
+export const watchlistService = new WatchlistService()
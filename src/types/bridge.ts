@@ -1,7 +1,53 @@
-export type BridgeStatus = 'awaiting_bridge' | 'in_transit' | 'awaiting_claim' | 'claimed'
+import { type Address } from 'viem'
+
+// Transaction states for outbox tracking, see utils/transactionStateMachine for the allowed transitions
+// ready_to_execute: an Arbitrum L2 -> L1 message is past its challenge period and must be executed on L1
+// Failure states:
+// prepare_reverted: prepare() reverted, nothing was bridged
+// prepare_dropped: prepare() never made it onchain (dropped, replaced or the batch failed), nothing was bridged
+// claim_failed: the claim transaction reverted, the claim can be retried
+// stuck: the sent root hasn't reached the destination long after it should have
+// emergency_exit: the token's emergency hatch is open, unsent leaves can only exit on the source chain
+export type TransactionStatus =
+  | 'initiated'
+  | 'waiting_to_send'
+  | 'sent_to_remote'
+  | 'ready_to_execute'
+  | 'ready_to_claim'
+  | 'claimed'
+  | 'prepare_reverted'
+  | 'prepare_dropped'
+  | 'claim_failed'
+  | 'stuck'
+  | 'emergency_exit'
+
+// A status change with when it happened; from is null for the status a transaction was stored with
+export interface TransactionTransition {
+  from: TransactionStatus | null
+  to: TransactionStatus
+  at: number
+}
+
+// Sub-states of an OP Stack L2 -> L1 withdrawal while the transaction is sent_to_remote
+export type OpWithdrawalStatus = 'waiting_to_prove' | 'ready_to_prove' | 'waiting_to_finalize' | 'ready_to_finalize' | 'finalized'
+
+export interface OpWithdrawalState {
+  status: OpWithdrawalStatus
+  proveAvailableAt?: number // Estimated ms timestamp a dispute game will cover the withdrawal
+  finalizeAvailableAt?: number // Ms timestamp the proof maturity delay ends
+  updatedAt: number
+}
+
+// Where a CCIP message is on the destination lane while the transaction is sent_to_remote
+// sent: waiting for its commit report; failed: automatic execution reverted and needs manual execution
+export type CcipMessageStatus = 'sent' | 'committed' | 'executed' | 'failed'
 
-// New transaction states for outbox tracking
-export type TransactionStatus = 'initiated' | 'waiting_to_send' | 'sent_to_remote' | 'ready_to_claim' | 'claimed'
+export interface CcipMessageState {
+  messageId: string
+  sequenceNumber: string
+  status: CcipMessageStatus
+  updatedAt: number
+}
 
 // Outbox tree structures
 export interface Tree {
@@ -16,6 +62,12 @@ export interface JBOutboxTree {
   numberOfClaimsSent: number
 }
 
+// Inbox tree root received from the remote chain
+export interface JBInboxTreeRoot {
+  nonce: number
+  root: string // bytes32
+}
+
 export interface Token {
   symbol: string
   name: string
@@ -31,12 +83,12 @@ export interface BridgeTransaction {
   destinationChainId: number
   token: Token
   amount: string
-  status: BridgeStatus
+  status: TransactionStatus
 }
 
 export interface JBSuckersPair {
-  local: string
-  remote: string
+  local: Address
+  remote: Address
   remoteChainId: number
 }
 
@@ -44,13 +96,13 @@ export interface SuckerPair {
   id: string // Unique identifier for the pair
   chainA: {
     chainId: number
-    address: string
+    address: Address
     projectId: string
     bridgeInfo?: SuckerBridgeInfo // Optional bridge detection info (populated after discovery)
   }
   chainB: {
     chainId: number
-    address: string
+    address: Address
     projectId: string
     bridgeInfo?: SuckerBridgeInfo // Optional bridge detection info (populated after discovery)
   }
@@ -94,6 +146,9 @@ export interface JBClaim {
 // Bridge types for underlying implementations
 export type BridgeType = 'ArbitrumCanonical' | 'OptimismCanonical' | 'CCIP' | 'unknown'
 
+// Direction of a bridge between L1 and L2 chains
+export type BridgeDirection = 'l1ToL2' | 'l2ToL1' | 'l2ToL2'
+
 // Bridge direction configuration
 export interface BridgeDirectionConfig {
   requiresPayment: boolean // Whether toRemote() requires payment
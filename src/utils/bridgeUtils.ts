@@ -1,4 +1,4 @@
-import { type TransactionStatus, type BridgeType, type BridgeDirectionConfig } from '@/types/bridge'
+import { type TransactionStatus, type BridgeType, type BridgeDirectionConfig, type BridgeDirection } from '@/types/bridge'
 
 /**
  * Utility functions for bridge-aware transaction state management
@@ -41,7 +41,7 @@ export function getBridgeDirectionEstimatedTime(directionConfig: BridgeDirection
 /**
  * Get bridge-specific warning messages for users based on direction
  */
-export function getBridgeDirectionWarnings(bridgeType: BridgeType, directionConfig: BridgeDirectionConfig, direction: 'l1ToL2' | 'l2ToL1' | 'l2ToL2'): string[] {
+export function getBridgeDirectionWarnings(bridgeType: BridgeType, directionConfig: BridgeDirectionConfig, direction: BridgeDirection): string[] {
   const warnings: string[] = []
   
   // L2 to L1 bridges typically have long finalization periods
@@ -68,6 +68,20 @@ export function getBridgeDirectionWarnings(bridgeType: BridgeType, directionConf
   return warnings
 }
 
+/**
+ * Check if a bridge direction has to wait out a challenge period before the root arrives on the destination
+ */
+export function bridgeDirectionRequiresFinalization(bridgeType: BridgeType, direction: BridgeDirection): boolean {
+  return direction === 'l2ToL1' && (bridgeType === 'ArbitrumCanonical' || bridgeType === 'OptimismCanonical')
+}
+
+/**
+ * Get the estimated completion timestamp (ms) for a transfer sent at `sentAt`
+ */
+export function getEstimatedCompletionTime(directionConfig: BridgeDirectionConfig, sentAt: number): number {
+  return sentAt + directionConfig.estimatedTimeMinutes * 60000
+}
+
 /**
  * Format estimated time in human-readable format
  */
@@ -81,4 +95,21 @@ export function formatEstimatedTime(minutes: number): string {
     const days = Math.round(minutes / 1440)
     return `~${days} day${days !== 1 ? 's' : ''}`
   }
-}
\ No newline at end of file
+}
+/**
+ * Format the time left until a timestamp (ms) as a short countdown, e.g. "2d 4h" or "12m 30s"
+ */
+export function formatCountdown(until: number, now: number = Date.now()): string {
+  const seconds = Math.max(0, Math.floor((until - now) / 1000))
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (days > 0) {
+    return `${days}d ${hours}h`
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`
+  }
+  return `${minutes}m ${seconds % 60}s`
+}
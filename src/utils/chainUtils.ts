@@ -40,6 +40,11 @@ export function getChainName(chainId: number, chains?: Chain[]): string {
   return `Chain ${chainId}`
 }
 
+export function getExplorerTxUrl(chainId: number, hash: string): string | null {
+  const explorer = SUPPORTED_CHAINS[chainId]?.blockExplorers?.default.url
+  return explorer ? `${explorer}/tx/${hash}` : null
+}
+
 // Removed external logo dependencies
 export function getChainColor(chainId: number): string {
   // Map of chain IDs to colors
@@ -1,13 +1,77 @@
+import { type PublicClient, createPublicClient, webSocket } from 'viem'
 import { getPublicClient } from '@wagmi/core'
+import { rpcSettingsService } from '@/services/rpcSettingsService'
 import { config } from './wagmiConfig'
+import { SUPPORTED_CHAINS } from './chainUtils'
+
+type ConfiguredChainId = (typeof config)['chains'][number]['id']
+
+// Public clients keyed by chain ID
+const publicClients = new Map<number, PublicClient>()
+
+// WebSocket clients for event subscriptions, keyed by chain ID
+const webSocketClients = new Map<number, PublicClient>()
+
+/**
+ * Check if a chain ID is one of the chains the app can read from
+ */
+export function isSupportedChain(chainId: number): boolean {
+  return SUPPORTED_CHAINS[chainId] !== undefined && config.chains.some(chain => chain.id === chainId)
+}
 
 /**
  * Get a public client for the specified chain using the shared wagmi config
  */
-export function getSharedPublicClient(chainId: number) {
-  const client = getPublicClient(config)
+export function getSharedPublicClient(chainId: number): PublicClient {
+  if (!isSupportedChain(chainId)) {
+    throw new Error(`Unsupported chain ID: ${chainId}`)
+  }
+
+  const cached = publicClients.get(chainId)
+  if (cached) {
+    return cached
+  }
+
+  const client = getPublicClient(config, { chainId: chainId as ConfiguredChainId }) as PublicClient | undefined
   if (!client) {
     throw new Error(`No public client available for chain ID: ${chainId}`)
   }
+
+  // Make sure reads for this chain can never be served by another chain's client
+  if (client.chain?.id !== chainId) {
+    throw new Error(`Public client for chain ID ${chainId} is connected to chain ID ${client.chain?.id}`)
+  }
+
+  publicClients.set(chainId, client)
+  return client
+}
+
+/**
+ * Get a WebSocket client for the chain, or null when no WebSocket URL is configured for it
+ */
+export function getSharedWebSocketClient(chainId: number): PublicClient | null {
+  const url = rpcSettingsService.getWebSocketUrl(chainId)
+  if (!url || !isSupportedChain(chainId)) {
+    return null
+  }
+
+  const cached = webSocketClients.get(chainId)
+  if (cached) {
+    return cached
+  }
+
+  const client = createPublicClient({
+    chain: SUPPORTED_CHAINS[chainId],
+    transport: webSocket(url)
+  }) as PublicClient
+
+  webSocketClients.set(chainId, client)
   return client
 }
+
+/**
+ * Clear cached public clients (useful when transports change)
+ */
+export function clearSharedPublicClients(): void {
+  publicClients.clear()
+}
@@ -0,0 +1,9 @@
+/**
+ * Limits for scanning event logs in chunks when an RPC rejects a full-range getLogs query
+ */
+
+// Blocks per getLogs call
+export const LOG_CHUNK_SIZE = BigInt(50000)
+
+// Chunks per scan before giving up, so a scan covers at most 10M blocks
+export const MAX_LOG_CHUNKS = 200
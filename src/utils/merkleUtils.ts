@@ -0,0 +1,92 @@
+import { type Address, type Hex, encodeAbiParameters, encodePacked, keccak256 } from 'viem'
+
+/**
+ * Utility functions mirroring the sucker's incremental Merkle tree (MerkleLib)
+ */
+
+// Depth of the sucker outbox/inbox trees
+export const TREE_DEPTH = 32
+
+const ZERO_HASH: Hex = '0x0000000000000000000000000000000000000000000000000000000000000000'
+
+// Roots of empty subtrees for each level (Z_0 = 0, Z_n+1 = keccak(Z_n, Z_n))
+export const ZERO_HASHES: Hex[] = (() => {
+  const zeros: Hex[] = [ZERO_HASH]
+  for (let i = 1; i < TREE_DEPTH; i++) {
+    zeros.push(hashPair(zeros[i - 1], zeros[i - 1]))
+  }
+  return zeros
+})()
+
+function hashPair(left: Hex, right: Hex): Hex {
+  return keccak256(encodePacked(['bytes32', 'bytes32'], [left, right]))
+}
+
+/**
+ * Build the leaf hash the sucker inserts into its outbox tree
+ */
+export function hashLeaf(projectTokenCount: bigint, terminalTokenAmount: bigint, beneficiary: Address): Hex {
+  return keccak256(encodeAbiParameters(
+    [{ type: 'uint256' }, { type: 'uint256' }, { type: 'address' }],
+    [projectTokenCount, terminalTokenAmount, beneficiary]
+  ))
+}
+
+/**
+ * Compute the root of a tree containing the given leaves (in index order)
+ */
+export function computeRoot(leaves: Hex[]): Hex {
+  if (leaves.length === 0) {
+    return branchRoot(ZERO_HASH, ZERO_HASHES, 0)
+  }
+  return branchRoot(leaves[0], computeProof(leaves, 0), 0)
+}
+
+/**
+ * Compute the 32-element proof for the leaf at `index` in a tree containing `leaves`
+ */
+export function computeProof(leaves: Hex[], index: number): Hex[] {
+  if (index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index ${index} out of range for tree of size ${leaves.length}`)
+  }
+
+  const proof: Hex[] = []
+  let level = [...leaves]
+  let position = index
+
+  for (let depth = 0; depth < TREE_DEPTH; depth++) {
+    const siblingPosition = position ^ 1
+    proof.push(siblingPosition < level.length ? level[siblingPosition] : ZERO_HASHES[depth])
+
+    // Hash the current level into the next one, padding with the empty subtree root
+    const nextLevel: Hex[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      const right = i + 1 < level.length ? level[i + 1] : ZERO_HASHES[depth]
+      nextLevel.push(hashPair(level[i], right))
+    }
+
+    level = nextLevel
+    position = position >> 1
+  }
+
+  return proof
+}
+
+/**
+ * Walk a proof from a leaf up to the root (MerkleLib.branchRoot)
+ */
+export function branchRoot(leaf: Hex, proof: Hex[], index: number | bigint): Hex {
+  const leafIndex = BigInt(index)
+  let current = leaf
+
+  for (let i = 0; i < TREE_DEPTH; i++) {
+    const sibling = proof[i] ?? ZERO_HASH
+    if (((leafIndex >> BigInt(i)) & BigInt(1)) === BigInt(1)) {
+      current = hashPair(sibling, current)
+    } else {
+      current = hashPair(current, sibling)
+    }
+  }
+
+  return current
+}
@@ -0,0 +1,56 @@
+import { type Transport, fallback, http } from 'viem'
+import { rpcSettingsService } from '@/services/rpcSettingsService'
+import { rpcHealthService } from '@/services/rpcHealthService'
+
+/**
+ * Wrap an http transport so every request feeds the endpoint's health score
+ */
+function trackedHttp(url: string): Transport {
+  const transport = http(url)
+
+  return (params) => {
+    const instance = transport(params)
+
+    const request = (async (args, options) => {
+      const start = Date.now()
+      try {
+        const result = await instance.request(args, options)
+        rpcHealthService.recordSuccess(url, Date.now() - start)
+        return result
+      } catch (error) {
+        if (rpcHealthService.isEndpointError(error)) {
+          rpcHealthService.recordFailure(url, Date.now() - start, error)
+        } else {
+          // The endpoint answered, the call itself failed (e.g. a revert)
+          rpcHealthService.recordSuccess(url, Date.now() - start)
+        }
+        throw error
+      }
+    }) as typeof instance.request
+
+    return { ...instance, request }
+  }
+}
+
+/**
+ * Create the transport for a chain from its configured RPC URLs, falling back
+ * between endpoints and ranking them by latency and stability
+ */
+export function createChainTransport(chainId: number): Transport {
+  const urls = rpcSettingsService.getRpcUrls(chainId)
+
+  if (urls.length === 0) {
+    return http()
+  }
+
+  if (urls.length === 1) {
+    return trackedHttp(urls[0])
+  }
+
+  return fallback(urls.map(url => trackedHttp(url)), {
+    rank: {
+      interval: 60000,
+      sampleCount: 5
+    }
+  })
+}
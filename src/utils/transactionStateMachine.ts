@@ -0,0 +1,44 @@
+import { type TransactionStatus } from '@/types/bridge'
+
+/**
+ * Statuses a bridge transaction may move to from each status.
+ * Forward skips are allowed because a poll can miss intermediate states (e.g. proofs found before the send was seen).
+ */
+const TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  initiated: ['waiting_to_send', 'sent_to_remote', 'ready_to_claim', 'claimed', 'prepare_reverted', 'prepare_dropped', 'emergency_exit'],
+  waiting_to_send: ['sent_to_remote', 'ready_to_execute', 'ready_to_claim', 'claimed', 'emergency_exit'],
+  sent_to_remote: ['ready_to_execute', 'ready_to_claim', 'claimed', 'stuck'],
+  ready_to_execute: ['ready_to_claim', 'claimed', 'stuck'],
+  ready_to_claim: ['claimed', 'claim_failed'],
+  // Only when the destination sucker shows the leaf was never executed
+  claimed: ['ready_to_claim'],
+  claim_failed: ['claimed'],
+  // A stuck root that finally arrives picks up where it left off
+  stuck: ['sent_to_remote', 'ready_to_execute', 'ready_to_claim', 'claimed'],
+  prepare_reverted: [],
+  prepare_dropped: [],
+  emergency_exit: []
+}
+
+const FAILURE_STATUSES: TransactionStatus[] = ['prepare_reverted', 'prepare_dropped', 'claim_failed', 'stuck', 'emergency_exit']
+
+/**
+ * Check whether a transaction may move between two statuses. Staying in the same status is always allowed.
+ */
+export function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+  return from === to || TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Check whether a status is a failure state
+ */
+export function isFailureStatus(status: TransactionStatus): boolean {
+  return FAILURE_STATUSES.includes(status)
+}
+
+/**
+ * Check whether a status is final: nothing more will happen to the transaction
+ */
+export function isFinalStatus(status: TransactionStatus): boolean {
+  return TRANSITIONS[status].length === 0
+}
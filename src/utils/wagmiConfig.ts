@@ -1,4 +1,4 @@
-import { createConfig, http } from 'wagmi'
+import { createConfig } from 'wagmi'
 import { 
   mainnet, 
   optimism, 
@@ -10,6 +10,7 @@ import {
   arbitrumSepolia
 } from 'wagmi/chains'
 import { injected } from 'wagmi/connectors'
+import { createChainTransport } from './rpcTransport'
 
 export const config = createConfig({
   chains: [
@@ -24,17 +25,18 @@ export const config = createConfig({
     baseSepolia,
     arbitrumSepolia
   ],
+  // RPC endpoints come from user settings, NEXT_PUBLIC_RPC_URLS and built-in defaults
   transports: {
     // Mainnets
-    [mainnet.id]: http(),
-    [optimism.id]: http(),
-    [base.id]: http('https://base.llamarpc.com'),
-    [arbitrum.id]: http(),
+    [mainnet.id]: createChainTransport(mainnet.id),
+    [optimism.id]: createChainTransport(optimism.id),
+    [base.id]: createChainTransport(base.id),
+    [arbitrum.id]: createChainTransport(arbitrum.id),
     // Testnets
-    [sepolia.id]: http(),
-    [optimismSepolia.id]: http(),
-    [baseSepolia.id]: http(),
-    [arbitrumSepolia.id]: http(),
+    [sepolia.id]: createChainTransport(sepolia.id),
+    [optimismSepolia.id]: createChainTransport(optimismSepolia.id),
+    [baseSepolia.id]: createChainTransport(baseSepolia.id),
+    [arbitrumSepolia.id]: createChainTransport(arbitrumSepolia.id),
   },
   connectors: [
     injected()